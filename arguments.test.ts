@@ -0,0 +1,310 @@
+import { describe, expect, test } from "@jest/globals";
+import { Client } from "fauna";
+import {
+  type ExecutionArgs,
+  type ExecutionResult,
+  type GraphQLFieldConfig,
+  GraphQLInputObjectType,
+  GraphQLInt,
+  GraphQLList,
+  GraphQLNonNull,
+  GraphQLObjectType,
+  GraphQLSchema,
+  GraphQLString,
+  parse,
+} from "graphql";
+import createExecutorBackend, {
+  type CreateExecutorBackendOptions,
+} from "./backends/faunadbV10";
+import { type CancellationArgs, createExecuteFn } from "./executor";
+import { flattenMiddleware } from "./utils";
+
+const client = new Client({
+  endpoint: new URL("http://localhost:8443"),
+  secret: "secret",
+
+  // NOTE: this stops jest from complaining about
+  //       not exiting "one second after the test run has completed".
+  http2_session_idle_ms: 100,
+});
+
+function makeSchema(fields: Record<string, GraphQLFieldConfig<any, any, any>>) {
+  return new GraphQLSchema({
+    query: new GraphQLObjectType({
+      name: "Query",
+      fields,
+    }),
+  });
+}
+
+async function execute(
+  schema: GraphQLSchema,
+  query: string,
+  backendOptions: CreateExecutorBackendOptions = {},
+  extraArgs: Partial<ExecutionArgs & CancellationArgs> = {},
+): Promise<[ExecutionResult<any>, number]> {
+  let count = 0;
+  const executeFn = createExecuteFn(
+    createExecutorBackend(client, {
+      ...backendOptions,
+      queryMiddleware: [
+        (next) =>
+          async (...args) => {
+            count++;
+            // console.log("query", JSON.stringify(args[1].encode(), null, 2));
+            const res = await next(...args);
+            // console.log("result", JSON.stringify(res, null, 2));
+            return res;
+          },
+        flattenMiddleware(backendOptions.queryMiddleware),
+      ],
+    }),
+  );
+
+  return [
+    JSON.parse(
+      JSON.stringify(
+        await executeFn({
+          ...extraArgs,
+          schema,
+          document: parse(query),
+        }),
+      ),
+    ),
+    count,
+  ];
+}
+
+describe("input coercion", () => {
+  const inputType = new GraphQLInputObjectType({
+    name: "Input",
+    fields: {
+      required: { type: new GraphQLNonNull(GraphQLInt) },
+      defaulted: { type: GraphQLString, defaultValue: "default" },
+      optional: { type: GraphQLString },
+      list: { type: new GraphQLList(GraphQLInt) },
+    },
+  });
+  const schema = makeSchema({
+    echo: {
+      type: GraphQLString,
+      args: {
+        input: { type: inputType },
+        arg: { type: GraphQLString, defaultValue: "arg default" },
+      },
+      resolve: (_, args) => JSON.stringify(args),
+    },
+  });
+
+  test("input object defaults and list wrapping", async () => {
+    expect(
+      await execute(schema, "{ echo(input: { required: 1, list: 2 }) }"),
+    ).toStrictEqual([
+      {
+        data: {
+          echo: JSON.stringify({
+            input: { required: 1, defaulted: "default", list: [2] },
+            arg: "arg default",
+          }),
+        },
+      },
+      0,
+    ]);
+  });
+
+  test("operation variable defaults", async () => {
+    expect(
+      await execute(
+        schema,
+        'query ($input: Input = { required: 2 }, $arg: String = "var default") { echo(input: $input, arg: $arg) }',
+      ),
+    ).toStrictEqual([
+      {
+        data: {
+          echo: JSON.stringify({
+            input: { required: 2, defaulted: "default" },
+            arg: "var default",
+          }),
+        },
+      },
+      0,
+    ]);
+  });
+
+  test("invalid variables", async () => {
+    expect(
+      await execute(
+        schema,
+        "query ($input: Input!) { echo(input: $input) }",
+        {},
+        {
+          variableValues: {
+            input: { required: 1, list: [1, "two"], unknown: true },
+          },
+        },
+      ),
+    ).toStrictEqual([
+      {
+        errors: [
+          {
+            locations: [{ column: 8, line: 1 }],
+            message:
+              'Variable "$input" got invalid value {"required":1,"list":[1,"two"],"unknown":true}; Field "unknown" is not defined by type "Input".',
+            extensions: { code: "BAD_USER_INPUT" },
+          },
+        ],
+      },
+      0,
+    ]);
+  });
+
+  test("invalid nested variable value", async () => {
+    expect(
+      await execute(
+        schema,
+        "query ($input: Input!) { echo(input: $input) }",
+        {},
+        { variableValues: { input: { required: 1, list: [1, "two"] } } },
+      ),
+    ).toStrictEqual([
+      {
+        errors: [
+          {
+            locations: [{ column: 8, line: 1 }],
+            message:
+              'Variable "$input" got invalid value {"required":1,"list":[1,"two"]} at "input.list[1]"; Int cannot represent non-integer value: "two"',
+            extensions: { code: "BAD_USER_INPUT" },
+          },
+        ],
+      },
+      0,
+    ]);
+  });
+
+  test("invalid literal", async () => {
+    expect(
+      await execute(schema, "{ echo(input: { list: [1] }) }"),
+    ).toStrictEqual([
+      {
+        data: { echo: null },
+        errors: [
+          {
+            locations: [{ column: 15, line: 1 }],
+            message:
+              'Argument "input" has invalid value; Field "required" of required type "Int!" was not provided.',
+            extensions: { code: "BAD_USER_INPUT" },
+            path: ["echo"],
+          },
+        ],
+      },
+      0,
+    ]);
+  });
+});
+
+describe("oneOf inputs", () => {
+  const schema = makeSchema({
+    lookup: {
+      type: GraphQLString,
+      args: {
+        by: {
+          type: new GraphQLInputObjectType({
+            name: "LookupBy",
+            extensions: { oneOf: true },
+            fields: {
+              id: { type: GraphQLInt },
+              name: { type: GraphQLString },
+            },
+          }),
+        },
+      },
+      resolve: (_, args) => JSON.stringify(args),
+    },
+  });
+
+  test("literal with one key", async () => {
+    expect(
+      await execute(schema, '{ lookup(by: { name: "foo" }) }'),
+    ).toStrictEqual([
+      { data: { lookup: JSON.stringify({ by: { name: "foo" } }) } },
+      0,
+    ]);
+  });
+
+  test("variable with one key", async () => {
+    expect(
+      await execute(
+        schema,
+        "query ($by: LookupBy) { lookup(by: $by) }",
+        {},
+        { variableValues: { by: { id: 1 } } },
+      ),
+    ).toStrictEqual([
+      { data: { lookup: JSON.stringify({ by: { id: 1 } }) } },
+      0,
+    ]);
+  });
+
+  test("literal with multiple keys", async () => {
+    expect(
+      await execute(schema, '{ lookup(by: { id: 1, name: "foo" }) }'),
+    ).toStrictEqual([
+      {
+        data: { lookup: null },
+        errors: [
+          {
+            locations: [{ column: 14, line: 1 }],
+            message:
+              'Argument "by" has invalid value; OneOf Input Object "LookupBy" must specify exactly one key.',
+            extensions: { code: "BAD_USER_INPUT" },
+            path: ["lookup"],
+          },
+        ],
+      },
+      0,
+    ]);
+  });
+
+  test("literal with null value", async () => {
+    expect(await execute(schema, "{ lookup(by: { id: null }) }")).toStrictEqual(
+      [
+        {
+          data: { lookup: null },
+          errors: [
+            {
+              locations: [{ column: 14, line: 1 }],
+              message:
+                'Argument "by" has invalid value at "by.id"; Field "LookupBy.id" must be non-null.',
+              extensions: { code: "BAD_USER_INPUT" },
+              path: ["lookup"],
+            },
+          ],
+        },
+        0,
+      ],
+    );
+  });
+
+  test("variable with no keys", async () => {
+    expect(
+      await execute(
+        schema,
+        "query ($by: LookupBy) { lookup(by: $by) }",
+        {},
+        { variableValues: { by: {} } },
+      ),
+    ).toStrictEqual([
+      {
+        errors: [
+          {
+            locations: [{ column: 8, line: 1 }],
+            message:
+              'Variable "$by" got invalid value {}; OneOf Input Object "LookupBy" must specify exactly one key.',
+            extensions: { code: "BAD_USER_INPUT" },
+          },
+        ],
+      },
+      0,
+    ]);
+  });
+});
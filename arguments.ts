@@ -1,24 +1,96 @@
 import {
-  ArgumentNode,
-  GraphQLArgument,
+  type ArgumentNode,
+  type GraphQLArgument,
   GraphQLError,
-  GraphQLInputType,
+  type GraphQLInputObjectType,
+  type GraphQLInputType,
+  type GraphQLSchema,
+  Kind,
+  type ValueNode,
+  type VariableDefinitionNode,
   isEnumType,
+  isInputType,
   isListType,
   isNonNullType,
   isScalarType,
-  Kind,
-  ValueNode,
+  print,
+  typeFromAST,
 } from "graphql";
+import { ErrorCode } from "./errors";
+
+type InputPath = ReadonlyArray<string | number>;
 
 function isNullValue(value: any): boolean {
   return value === null || value === undefined;
 }
 
-function parseVariableValue(value: unknown, type: GraphQLInputType): unknown {
+function printInputPath(path: InputPath): string {
+  return path
+    .map((key, i) =>
+      typeof key === "number" ? `[${key}]` : i === 0 ? key : `.${key}`,
+    )
+    .join("");
+}
+
+/**
+ * Whether the input object type is marked with `@oneOf`, either through the
+ * `isOneOf` flag of newer graphql-js versions, the SDL or its extensions.
+ */
+export function isOneOfInputType(type: GraphQLInputObjectType): boolean {
+  return Boolean(
+    (type as { isOneOf?: boolean }).isOneOf ||
+      type.extensions?.oneOf ||
+      [type.astNode, ...type.extensionASTNodes].some((node) =>
+        node?.directives?.some((directive) => directive.name.value === "oneOf"),
+      ),
+  );
+}
+
+function assertOneOfValue(
+  type: GraphQLInputObjectType,
+  value: Record<string, unknown>,
+  path: InputPath,
+): void {
+  const keys = Object.keys(value);
+  if (keys.length !== 1) {
+    throw new InputError(
+      `OneOf Input Object "${type}" must specify exactly one key.`,
+      path,
+    );
+  }
+
+  if (isNullValue(value[keys[0]])) {
+    throw new InputError(`Field "${type}.${keys[0]}" must be non-null.`, [
+      ...path,
+      keys[0],
+    ]);
+  }
+}
+
+/**
+ * An error in an input value that is yet to be attached to the variable or
+ * argument that it belongs to.
+ */
+class InputError extends Error {
+  constructor(
+    message: string,
+    readonly inputPath: InputPath,
+  ) {
+    super(message);
+  }
+}
+
+function coerceInputValue(
+  value: unknown,
+  type: GraphQLInputType,
+  path: InputPath,
+): unknown {
   if (isNonNullType(type)) {
     if (isNullValue(value)) {
-      throw new GraphQLError("found null value for non-null input type");
+      throw new InputError(
+        `Expected non-nullable type "${type}" not to be null.`,
+        path,
+      );
     }
 
     type = type.ofType;
@@ -27,124 +99,368 @@ function parseVariableValue(value: unknown, type: GraphQLInputType): unknown {
   }
 
   if (isListType(type)) {
+    const itemType = type.ofType;
     if (!Array.isArray(value)) {
-      throw new GraphQLError("found non-array value for list input type");
+      // a single value is coerced into a list of one item
+      return [coerceInputValue(value, itemType, path)];
     }
 
-    const itemType = type.ofType;
-    return value.map((item) => parseVariableValue(item, itemType));
+    return value.map((item, i) =>
+      coerceInputValue(item, itemType, [...path, i]),
+    );
   }
 
   if (isScalarType(type) || isEnumType(type)) {
-    return type.parseValue(value);
+    let parsed: unknown;
+    try {
+      parsed = type.parseValue(value);
+    } catch (e) {
+      throw new InputError((e as any)?.message ?? String(e), path);
+    }
+
+    if (parsed === undefined) {
+      throw new InputError(`Expected type "${type}".`, path);
+    }
+
+    return parsed;
   }
 
-  if (typeof value !== "object" || value === null) {
-    throw new GraphQLError("found non-object value for object input type");
+  if (typeof value !== "object" || value === null || Array.isArray(value)) {
+    throw new InputError(`Expected type "${type}" to be an object.`, path);
   }
 
-  return Object.fromEntries(
-    Object.values(type.getFields()).map(
-      (field) => [field.name, parseVariableValue((value as Record<string, unknown>)[field.name], field.type)],
-    ),
+  const fields = type.getFields();
+  for (const name of Object.keys(value)) {
+    if (!(name in fields)) {
+      throw new InputError(
+        `Field "${name}" is not defined by type "${type}".`,
+        path,
+      );
+    }
+  }
+
+  if (isOneOfInputType(type)) {
+    const entries = Object.entries(value).filter(([, v]) => v !== undefined);
+    assertOneOfValue(type, Object.fromEntries(entries), path);
+
+    const [[name, fieldValue]] = entries;
+    return {
+      [name]: coerceInputValue(fieldValue, fields[name].type, [...path, name]),
+    };
+  }
+
+  const result: Record<string, unknown> = {};
+  for (const field of Object.values(fields)) {
+    const fieldValue = (value as Record<string, unknown>)[field.name];
+    if (fieldValue === undefined) {
+      if (field.defaultValue !== undefined) {
+        result[field.name] = field.defaultValue;
+      } else if (isNonNullType(field.type)) {
+        throw new InputError(
+          `Field "${field.name}" of required type "${field.type}" was not provided.`,
+          path,
+        );
+      }
+
+      continue;
+    }
+
+    result[field.name] = coerceInputValue(fieldValue, field.type, [
+      ...path,
+      field.name,
+    ]);
+  }
+
+  return result;
+}
+
+function isMissingVariable(
+  valueNode: ValueNode | undefined,
+  variables: Record<string, unknown>,
+): boolean {
+  return (
+    !valueNode ||
+    (valueNode.kind === Kind.VARIABLE &&
+      variables[valueNode.name.value] === undefined)
   );
 }
 
-function resolveArgument(
+function coerceLiteralValue(
   valueNode: ValueNode,
   type: GraphQLInputType,
-  variables: Record<string, unknown> | null | undefined,
+  variables: Record<string, unknown>,
+  path: InputPath,
 ): unknown {
-  try {
-    if (isNonNullType(type)) {
-      if (!valueNode || valueNode.kind === Kind.NULL) {
-        throw new GraphQLError("found null value for non-null input type");
-      }
-
-      type = type.ofType;
-    } else if (!valueNode || valueNode.kind === Kind.NULL) {
-      return null;
+  if (valueNode.kind === Kind.VARIABLE) {
+    // variables have already been coerced against their definitions
+    const value = variables[valueNode.name.value];
+    if (isNonNullType(type) && isNullValue(value)) {
+      throw new InputError(
+        `Expected non-nullable type "${type}" not to be null.`,
+        path,
+      );
     }
 
-    if (valueNode.kind === Kind.VARIABLE) {
-      const variableName = valueNode.name.value;
-      if (isNonNullType(type) && (!variables || !(variableName in variables))) {
-        throw new GraphQLError("found undefined variable: " + variableName);
-      }
+    return value ?? null;
+  }
 
-      return parseVariableValue(variables?.[variableName], type);
+  if (isNonNullType(type)) {
+    if (valueNode.kind === Kind.NULL) {
+      throw new InputError(
+        `Expected non-nullable type "${type}" not to be null.`,
+        path,
+      );
     }
 
-    if (isListType(type)) {
-      if (valueNode.kind !== Kind.LIST) {
-        throw new GraphQLError("found non-list value for list input type");
-      }
+    type = type.ofType;
+  } else if (valueNode.kind === Kind.NULL) {
+    return null;
+  }
 
-      const itemType = type.ofType;
-      return valueNode.values.map((item) => resolveArgument(item, itemType, variables));
+  if (isListType(type)) {
+    const itemType = type.ofType;
+    if (valueNode.kind !== Kind.LIST) {
+      // a single value is coerced into a list of one item
+      return [coerceLiteralValue(valueNode, itemType, variables, path)];
     }
 
-    if (isScalarType(type) || isEnumType(type)) {
-      return type.parseLiteral(valueNode, variables);
+    return valueNode.values.map((item, i) =>
+      isMissingVariable(item, variables)
+        ? coerceLiteralValue({ kind: Kind.NULL }, itemType, variables, [
+            ...path,
+            i,
+          ])
+        : coerceLiteralValue(item, itemType, variables, [...path, i]),
+    );
+  }
+
+  if (isScalarType(type) || isEnumType(type)) {
+    let parsed: unknown;
+    try {
+      parsed = type.parseLiteral(valueNode, variables);
+    } catch (e) {
+      throw new InputError((e as any)?.message ?? String(e), path);
     }
 
-    if (valueNode.kind !== Kind.OBJECT) {
-      throw new GraphQLError("found non-object value for object input type");
+    if (parsed === undefined) {
+      throw new InputError(
+        `Expected value of type "${type}", found ${print(valueNode)}.`,
+        path,
+      );
     }
-  } catch (e) {
-    throw new GraphQLError((e as any)?.message ?? String(e), {
-      nodes: [valueNode],
-      positions: [valueNode.loc?.start ?? -1],
-      source: valueNode.loc?.source,
-      originalError: e as any,
-    });
+
+    return parsed;
+  }
+
+  if (valueNode.kind !== Kind.OBJECT) {
+    throw new InputError(
+      `Expected value of type "${type}", found ${print(valueNode)}.`,
+      path,
+    );
   }
 
+  const fields = type.getFields();
   const valueFieldNodes = Object.fromEntries(
     valueNode.fields.map((field) => [field.name.value, field.value]),
   );
+  for (const name of Object.keys(valueFieldNodes)) {
+    if (!(name in fields)) {
+      throw new InputError(
+        `Field "${name}" is not defined by type "${type}".`,
+        path,
+      );
+    }
+  }
 
-  return Object.fromEntries(
-    Object.values(type.getFields()).map(
-      (field) => [field.name, resolveArgument(valueFieldNodes[field.name], field.type, variables)],
-    ),
-  );
+  const result: Record<string, unknown> = {};
+  for (const field of Object.values(fields)) {
+    const fieldNode = valueFieldNodes[field.name];
+    if (isMissingVariable(fieldNode, variables)) {
+      if (field.defaultValue !== undefined) {
+        result[field.name] = field.defaultValue;
+      } else if (isNonNullType(field.type)) {
+        throw new InputError(
+          `Field "${field.name}" of required type "${field.type}" was not provided.`,
+          path,
+        );
+      }
+
+      continue;
+    }
+
+    result[field.name] = coerceLiteralValue(fieldNode, field.type, variables, [
+      ...path,
+      field.name,
+    ]);
+  }
+
+  if (isOneOfInputType(type)) {
+    assertOneOfValue(type, result, path);
+  }
+
+  return result;
+}
+
+function inputErrorMessage(prefix: string, e: unknown): string {
+  if (!(e instanceof InputError)) {
+    return `${prefix}; ${(e as any)?.message ?? String(e)}`;
+  }
+
+  if (e.inputPath.length < 2) {
+    return `${prefix}; ${e.message}`;
+  }
+
+  return `${prefix} at "${printInputPath(e.inputPath)}"; ${e.message}`;
 }
 
+/**
+ * Coerce the variable values provided for an operation according to the
+ * operation's variable definitions, including their default values.
+ *
+ * All invalid variables are reported at once by throwing an array of errors.
+ */
+export function coerceVariableValues(
+  schema: GraphQLSchema,
+  definitions: ReadonlyArray<VariableDefinitionNode> | undefined,
+  inputs: Record<string, unknown> | null | undefined,
+): Record<string, unknown> {
+  const errors: GraphQLError[] = [];
+  const coerced: Record<string, unknown> = {};
+  for (const definition of definitions ?? []) {
+    const name = definition.variable.name.value;
+    const type = typeFromAST(schema, definition.type);
+    if (!type || !isInputType(type)) {
+      errors.push(
+        new GraphQLError(
+          `Variable "$${name}" expected value of type "${print(definition.type)}" which cannot be used as an input type.`,
+          {
+            nodes: definition.type,
+            extensions: { code: ErrorCode.BAD_USER_INPUT },
+          },
+        ),
+      );
+      continue;
+    }
+
+    if (!inputs || !(name in inputs) || inputs[name] === undefined) {
+      if (definition.defaultValue) {
+        try {
+          coerced[name] = coerceLiteralValue(
+            definition.defaultValue,
+            type,
+            {},
+            [name],
+          );
+        } catch (e) {
+          errors.push(
+            new GraphQLError(
+              inputErrorMessage(
+                `Variable "$${name}" has invalid default value`,
+                e,
+              ),
+              {
+                nodes: definition.defaultValue,
+                originalError: e as any,
+                extensions: { code: ErrorCode.BAD_USER_INPUT },
+              },
+            ),
+          );
+        }
+      } else if (isNonNullType(type)) {
+        errors.push(
+          new GraphQLError(
+            `Variable "$${name}" of required type "${type}" was not provided.`,
+            {
+              nodes: definition,
+              extensions: { code: ErrorCode.BAD_USER_INPUT },
+            },
+          ),
+        );
+      }
+
+      continue;
+    }
+
+    try {
+      coerced[name] = coerceInputValue(inputs[name], type, [name]);
+    } catch (e) {
+      errors.push(
+        new GraphQLError(
+          inputErrorMessage(
+            `Variable "$${name}" got invalid value ${JSON.stringify(inputs[name])}`,
+            e,
+          ),
+          {
+            nodes: definition,
+            originalError: e as any,
+            extensions: { code: ErrorCode.BAD_USER_INPUT },
+          },
+        ),
+      );
+    }
+  }
+
+  if (errors.length) {
+    throw errors;
+  }
+
+  return coerced;
+}
+
+/**
+ * Coerce the arguments of a field, applying the argument default values.
+ * Variables are expected to have been coerced by `coerceVariableValues`.
+ */
 export function resolveArguments(
   variables: Record<string, any> | null | undefined,
   nodes: readonly ArgumentNode[] | undefined,
   args: readonly GraphQLArgument[],
 ): Record<string, any> {
-  if (!nodes) {
-    return {};
-  }
-
-  const valueNodeMap = Object.fromEntries(nodes.map((node) => [node.name.value, node.value]));
-  return Object.fromEntries(
-    args.map((arg) => {
-      let type = arg.type;
-      let nullable = true;
-      if (isNonNullType(type)) {
-        type = type.ofType;
-        nullable = false;
-      }
+  variables ??= {};
 
-      const valueNode = valueNodeMap[arg.name];
-      if (!valueNode) {
-        if (!nullable) {
-          throw new Error(`missing required argument: ${arg.name}`);
-        }
+  const argumentNodes = Object.fromEntries(
+    (nodes ?? []).map((node) => [node.name.value, node]),
+  );
 
-        return [arg.name, arg.defaultValue];
+  const result: Record<string, any> = {};
+  for (const arg of args) {
+    const argumentNode = argumentNodes[arg.name];
+    if (isMissingVariable(argumentNode?.value, variables)) {
+      if (arg.defaultValue !== undefined) {
+        result[arg.name] = arg.defaultValue;
+      } else if (isNonNullType(arg.type)) {
+        throw new GraphQLError(
+          `Argument "${arg.name}" of required type "${arg.type}" was not provided.`,
+          {
+            nodes: argumentNode,
+            extensions: { code: ErrorCode.BAD_USER_INPUT },
+          },
+        );
       }
 
-      const value = resolveArgument(valueNode, type, variables) ?? null;
-      if (value === null && !nullable) {
-        throw new Error(`missing required argument: ${arg.name}`);
-      }
+      continue;
+    }
 
-      return [arg.name, value];
-    }),
-  );
+    try {
+      result[arg.name] = coerceLiteralValue(
+        argumentNode.value,
+        arg.type,
+        variables,
+        [arg.name],
+      );
+    } catch (e) {
+      throw new GraphQLError(
+        inputErrorMessage(`Argument "${arg.name}" has invalid value`, e),
+        {
+          nodes: [argumentNode.value],
+          positions: argumentNode.value.loc && [argumentNode.value.loc.start],
+          source: argumentNode.value.loc?.source,
+          originalError: e as any,
+          extensions: { code: ErrorCode.BAD_USER_INPUT },
+        },
+      );
+    }
+  }
+
+  return result;
 }
@@ -5,6 +5,7 @@ import {
   Kind,
   OperationDefinitionNode,
 } from "graphql";
+import { ErrorCode } from "./errors";
 
 function groupBy<T, K extends string>(
   array: readonly T[],
@@ -40,18 +41,25 @@ export function extractOperationAndFragments(
       def.name?.value === name
     );
     if (!operation) {
-      throw new GraphQLError("missing operation " + name);
+      throw new GraphQLError(`Unknown operation named "${name}".`, {
+        extensions: { code: ErrorCode.OPERATION_RESOLUTION_FAILURE },
+      });
     }
 
     return [operation, FragmentDefinition || []];
   }
 
   if (!OperationDefinition?.length) {
-    throw new GraphQLError("missing operation");
+    throw new GraphQLError("Must provide an operation.", {
+      extensions: { code: ErrorCode.OPERATION_RESOLUTION_FAILURE },
+    });
   }
 
-  if (OperationDefinition?.length !== 1) {
-    throw new GraphQLError("only one unnamed operation allowed");
+  if (OperationDefinition.length !== 1) {
+    throw new GraphQLError(
+      "Must provide operation name if query contains multiple operations.",
+      { extensions: { code: ErrorCode.OPERATION_RESOLUTION_FAILURE } },
+    );
   }
 
   return [OperationDefinition[0], FragmentDefinition || []];
@@ -13,7 +13,12 @@ import {
 import { addPath, Path, pathToArray } from "graphql/jsutils/Path";
 
 import type { ExecutorBackend, WrappedValue } from "../executor";
-import { Middleware, findImplementors, flattenMiddleware } from "../utils";
+import {
+  Middleware,
+  findImplementors,
+  flattenMiddleware,
+  getErrorSentinel,
+} from "../utils";
 
 function isExpr(e: any) {
   return e && (
@@ -333,8 +338,6 @@ export default function createExecutorBackend(
         suppressArrayHandling: true,
       }));
     },
-    getErrorMessage(value) {
-      return (value as any)?.["@error"] ?? null;
-    },
+    getError: getErrorSentinel,
   };
 }
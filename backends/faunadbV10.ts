@@ -1,10 +1,15 @@
 import {
+  AbortError,
   Client,
   type ClientConfiguration,
+  ConstraintFailureError,
   fql,
   type QueryFailure,
   type QueryInterpolation,
   type QueryOptions,
+  QueryCheckError,
+  QueryRuntimeError,
+  type QueryStats,
   type QuerySuccess,
   type QueryValue,
   ServiceError,
@@ -28,7 +33,13 @@ import type {
   GraphQLCompositeOutputType,
   WrappedValue,
 } from "../executor";
-import { type Middleware, flattenMiddleware } from "../utils";
+import { ErrorCode } from "../errors";
+import {
+  type Middleware,
+  flattenMiddleware,
+  getErrorSentinel,
+  raceAbortSignal,
+} from "../utils";
 
 // HACK: change this either when there an `isQuery` helper or when `Query` is exported
 type Query = import("fauna").Query;
@@ -93,6 +104,32 @@ function customFQL(
 
 export { customFQL as fql };
 
+/**
+ * Build an `@error` sentinel that fails the field that it is resolved for,
+ * e.g. `fieldError({ message: "Not found.", code: "NOT_FOUND" })` in one of
+ * the branches of an `if`. Every part of the error may be a query, e.g. to
+ * compute the message.
+ */
+export function fieldError({
+  message,
+  code = null,
+  extensions = null,
+  path = null,
+}: {
+  message: QueryInput;
+  code?: QueryInput;
+  extensions?: QueryInput;
+  path?: QueryInput;
+}): Query {
+  return customFQL(
+    ['{"@error":{message:', ",code:", ",extensions:", ",path:", "}}"],
+    message,
+    code,
+    extensions,
+    path,
+  );
+}
+
 const wrapped = Symbol("is wrapped");
 const original = Symbol("get original");
 export const isWrappedValue = (value: any): value is WrappedValue<any> => {
@@ -102,7 +139,7 @@ export const isWrappedValue = (value: any): value is WrappedValue<any> => {
 
 function queryToString(query: string | QueryInterpolation | Query): string {
   if (isExpr(query)) {
-    return query.encode().fql.map(queryToString).join(",");
+    return queryToString(query.encode());
   }
 
   if (typeof query === "string") {
@@ -267,6 +304,137 @@ function pathToIdent(path: Path): string {
     .join("_");
 }
 
+const errorLocationPattern = /at \*query\*:(\d+):(\d+)/;
+
+// the quoted source lines of the summary, e.g. `1 | abort("oops")`
+const summarySourcePattern = /^\s*(\d+) \|(?: (.*))?$/gm;
+
+// the field markers of `dataContainerAsQuery` and the list mapping of
+// `safeMap`, e.g. `items_.map((items)=>`
+const queryStructurePattern =
+  /\/\/ -- (START|END) OF (\w+)$|(\w+)_\.map\(\(\3\)=>/gm;
+
+/**
+ * Find the GraphQL path of the field that failed from the error location in
+ * the summary of a failed query. The path stops at the first list since the
+ * index of the element that failed is unknown.
+ *
+ * The location refers to the query as the server rendered it, so it is only
+ * trusted when the summary quotes the same source line as our rendering.
+ * Otherwise no path is found and the executor bisects the batch instead.
+ */
+function findErrorPath(
+  input: Array<[Query, Path]>,
+  summary: string | undefined,
+): Array<string | number> | undefined {
+  const location = summary?.match(errorLocationPattern);
+  if (!location) {
+    return undefined;
+  }
+
+  // the same layout as `combineQueries`
+  const queries = input.map(([query]) => queryToString(query));
+  const text = `[${queries.map((query) => `{${query}}`).join(",")}]`;
+
+  const lines = text.split("\n");
+  const line = Number(location[1]);
+  if (line > lines.length) {
+    return undefined;
+  }
+
+  const quotedLine = Array.from(summary!.matchAll(summarySourcePattern)).find(
+    ([, number]) => Number(number) === line,
+  );
+  if (
+    !quotedLine ||
+    (quotedLine[2] ?? "").trimEnd() !== lines[line - 1].trimEnd()
+  ) {
+    return undefined;
+  }
+
+  const offset =
+    lines.slice(0, line - 1).reduce((sum, l) => sum + l.length + 1, 0) +
+    Number(location[2]) -
+    1;
+
+  let start = 1;
+  for (const [i, query] of queries.entries()) {
+    // skip the opening brace
+    start++;
+    if (offset < start + query.length) {
+      if (offset < start) {
+        return undefined;
+      }
+
+      return findFieldPath(
+        pathToArray(input[i][1]),
+        query.slice(0, offset - start),
+      );
+    }
+
+    // skip the closing brace and comma
+    start += query.length + 2;
+  }
+
+  return undefined;
+}
+
+function findFieldPath(
+  valuePath: Array<string | number>,
+  precedingQuery: string,
+): Array<string | number> {
+  const root = { key: "", isList: false };
+  const stack: Array<{ key: string; isList: boolean }> = [];
+  for (const [, marker, key] of precedingQuery.matchAll(
+    queryStructurePattern,
+  )) {
+    if (marker === "START") {
+      stack.push({ key, isList: false });
+    } else if (marker === "END") {
+      stack.pop();
+    } else {
+      // the children of the current field are inside of the list mapping
+      (stack[stack.length - 1] ?? root).isList = true;
+    }
+  }
+
+  const path = [...valuePath];
+  if (root.isList) {
+    return path;
+  }
+
+  for (const { key, isList } of stack) {
+    path.push(key);
+    if (isList) {
+      break;
+    }
+  }
+
+  return path;
+}
+
+/**
+ * A value given to FQL's `abort()` to fail a single field instead of the whole
+ * operation, e.g. `abort({ message: "Not found.", code: "NOT_FOUND" })`. The
+ * error is reported at the field that called `abort()`, or at `path` relative
+ * to that field. Without a code, the error is treated as a backend error.
+ */
+export interface FieldAbortPayload {
+  message: string;
+  code?: string;
+  extensions?: Record<string, unknown>;
+  path?: Array<string | number>;
+}
+
+function isFieldAbortPayload(value: unknown): value is FieldAbortPayload {
+  return (
+    typeof value === "object" &&
+    value !== null &&
+    !Array.isArray(value) &&
+    typeof (value as FieldAbortPayload).message === "string"
+  );
+}
+
 export type QueryFunction = (
   client: Client,
   query: Query,
@@ -294,6 +462,150 @@ export interface CreateExecutorBackendOptions {
   wrappedValuePropGetterMiddleware?:
     | WrappedValuePropGetterMiddleware
     | WrappedValuePropGetterMiddleware[];
+
+  /**
+   * Run consecutive mutation root fields in one transaction when none of them
+   * need restaging. Defaults to false.
+   */
+  batchMutations?: boolean;
+
+  /**
+   * Choose the client or secret and the query options of every execution,
+   * e.g. from the GraphQL context of a multi-tenant app. It is called once
+   * per execution.
+   */
+  resolveClient?: ClientResolver;
+
+  /**
+   * The number of clients that are kept for the secrets chosen by
+   * `resolveClient`, defaults to 16.
+   */
+  maxCachedClients?: number;
+
+  /**
+   * Add the totals of the query stats of every execution to the result as
+   * `extensions.fauna.stats`. Defaults to false.
+   */
+  includeStats?: boolean;
+
+  /**
+   * The most that the queries of an execution may consume, or a function that
+   * chooses it once per execution. The query that goes over the budget is not
+   * interrupted, but the later stages fail with a `LIMIT_EXCEEDED` error.
+   */
+  statsBudget?:
+    | QueryStatsBudget
+    | ((executionArgs: ExecutionArgs) => QueryStatsBudget | undefined);
+}
+
+/**
+ * The totals of the stats of the queries of an execution.
+ */
+export type QueryStatsTotals = Omit<QueryStats, "rate_limits_hit">;
+
+export type QueryStatsBudget = Partial<QueryStatsTotals>;
+
+const statsKeys: Array<keyof QueryStatsTotals> = [
+  "compute_ops",
+  "read_ops",
+  "write_ops",
+  "query_time_ms",
+  "storage_bytes_read",
+  "storage_bytes_write",
+  "contention_retries",
+  "attempts",
+];
+
+interface ExecutionStats {
+  totals: QueryStatsTotals;
+  budget: QueryStatsBudget | undefined;
+}
+
+function addStats(totals: QueryStatsTotals, stats: QueryStats | undefined) {
+  if (!stats) {
+    return;
+  }
+
+  for (const key of statsKeys) {
+    totals[key] += stats[key] ?? 0;
+  }
+}
+
+function assertWithinBudget({ totals, budget }: ExecutionStats) {
+  if (!budget) {
+    return;
+  }
+
+  const exceeded = statsKeys.find(
+    (key) => totals[key] > (budget[key] ?? Number.POSITIVE_INFINITY),
+  );
+  if (exceeded) {
+    throw new GraphQLError(
+      `Execution exceeded the budget of ${budget[exceeded]} ${exceeded} with ${totals[exceeded]}.`,
+      {
+        extensions: {
+          code: ErrorCode.LIMIT_EXCEEDED,
+          fauna: { stats: { ...totals } },
+        },
+      },
+    );
+  }
+}
+
+export interface ClientSelection {
+  /**
+   * The client to send the queries with.
+   */
+  client?: Client;
+
+  /**
+   * The secret to send the queries with, using a client with the backend's
+   * client configuration that is cached per secret.
+   */
+  secret?: string;
+
+  /**
+   * The options of every query, e.g. `query_tags`, `typecheck`, `linearized`
+   * or `query_timeout_ms`.
+   */
+  queryOptions?: QueryOptions;
+}
+
+export type ClientResolver = (
+  executionArgs: ExecutionArgs,
+) => ClientSelection | Promise<ClientSelection>;
+
+/**
+ * Keeps the clients of the most recently used secrets. Evicted clients are not
+ * closed since they may still have queries in flight.
+ */
+class ClientCache {
+  readonly #configuration: ClientConfiguration;
+  readonly #maxSize: number;
+  readonly #clients = new Map<string, Client>();
+
+  constructor(configuration: ClientConfiguration, maxSize: number) {
+    this.#configuration = configuration;
+    this.#maxSize = maxSize;
+  }
+
+  public get(secret: string): Client {
+    let client = this.#clients.get(secret);
+    if (client) {
+      // re-insert it as the most recently used
+      this.#clients.delete(secret);
+    } else {
+      client = new Client({ ...this.#configuration, secret });
+    }
+
+    this.#clients.set(secret, client);
+    if (this.#clients.size > this.#maxSize) {
+      const [oldest] = this.#clients.keys();
+      this.#clients.delete(oldest);
+    }
+
+    return client;
+  }
 }
 
 function defaultQueryFunction(
@@ -319,6 +631,14 @@ function defaultWrappedValuePropGetter(
   return fql(["(", `)?.[${JSON.stringify(prop)}]`], query);
 }
 
+function combineQueries(input: Array<[Query, Path]>): Query {
+  const queries = Array.from(input, ([expr]) => expr);
+  return fql(
+    ["[", ...new Array(queries.length - 1).fill(","), "]"],
+    ...queries.map((q) => fql`{${q}}`),
+  );
+}
+
 const nonnull = Symbol("nonnull");
 const list = Symbol("list");
 
@@ -327,6 +647,66 @@ export default function createExecutorBackend(
   options: CreateExecutorBackendOptions = {},
 ): ExecutorBackend<Query> {
   const client = input instanceof Client ? input : new Client(input);
+  const clientCache = new ClientCache(
+    client.clientConfiguration,
+    options.maxCachedClients ?? 16,
+  );
+
+  const { resolveClient } = options;
+  // keyed on the execution, callers may reuse the execution arguments
+  const selections = new WeakMap<
+    object,
+    Promise<[Client, QueryOptions | undefined]>
+  >();
+  const selectClient = (
+    executionArgs: ExecutionArgs,
+    execution: object,
+  ): Promise<[Client, QueryOptions | undefined]> => {
+    if (!resolveClient) {
+      return Promise.resolve([client, undefined]);
+    }
+
+    let selection = selections.get(execution);
+    if (!selection) {
+      selection = Promise.resolve(resolveClient(executionArgs)).then(
+        ({ client: selectedClient, secret, queryOptions }) => [
+          selectedClient ??
+            (secret === undefined ? client : clientCache.get(secret)),
+          queryOptions,
+        ],
+      );
+      selections.set(execution, selection);
+    }
+
+    return selection;
+  };
+
+  const { includeStats = false, statsBudget } = options;
+  const executionStats = new WeakMap<object, ExecutionStats>();
+  const getExecutionStats = (
+    executionArgs: ExecutionArgs,
+    execution: object,
+  ): ExecutionStats | undefined => {
+    if (!includeStats && statsBudget === undefined) {
+      return undefined;
+    }
+
+    let stats = executionStats.get(execution);
+    if (!stats) {
+      stats = {
+        totals: Object.fromEntries(
+          statsKeys.map((key) => [key, 0]),
+        ) as QueryStatsTotals,
+        budget:
+          typeof statsBudget === "function"
+            ? statsBudget(executionArgs)
+            : statsBudget,
+      };
+      executionStats.set(execution, stats);
+    }
+
+    return stats;
+  };
 
   const runQuery = flattenMiddleware(options.queryMiddleware)(
     defaultQueryFunction,
@@ -386,31 +766,88 @@ export default function createExecutorBackend(
   };
 
   return {
-    resolveDeferredValues: async (input, executionArgs) => {
-      const queries = Array.from(input, ([expr]) => expr);
+    resolveDeferredValues: async (input, executionArgs, options = {}) => {
       // const paths = Array.from(input, ([, path]) => pathToArray(path));
+      const execution = options.execution ?? executionArgs;
+      const stats = getExecutionStats(executionArgs, execution);
+      if (stats) {
+        assertWithinBudget(stats);
+      }
+
       try {
-        const combinedQuery = fql(
-          ["[", ...new Array(queries.length - 1).fill(","), "]"],
-          ...queries.map((q) => fql`{${q}}`),
+        const combinedQuery = combineQueries(input);
+        const [selectedClient, selectedQueryOptions] = await selectClient(
+          executionArgs,
+          execution,
         );
-        return (
-          (await runQuery(
-            client,
-            combinedQuery,
-            executionArgs,
-          )) as QuerySuccess<any>
-        ).data;
+        // the execution may have been aborted while choosing the client
+        options.signal?.throwIfAborted();
+
+        let queryOptions = selectedQueryOptions;
+        if (options.deadline !== undefined) {
+          // don't let the database keep working past the deadline
+          const remaining = Math.max(
+            1,
+            Math.floor(options.deadline - Date.now()),
+          );
+          queryOptions = {
+            ...queryOptions,
+            query_timeout_ms: Math.min(
+              queryOptions?.query_timeout_ms ?? remaining,
+              remaining,
+            ),
+          };
+        }
+
+        const response = (await raceAbortSignal(
+          runQuery(selectedClient, combinedQuery, executionArgs, queryOptions),
+          options.signal,
+        )) as QuerySuccess<any>;
+        if (stats) {
+          addStats(stats.totals, response.stats);
+        }
+
+        return response.data;
       } catch (e) {
         if (!(e instanceof ServiceError)) {
           throw e;
         }
 
-        console.log(e.queryInfo?.summary ?? e.queryInfo, e.constraint_failures);
+        if (stats) {
+          // failed queries are billed too
+          addStats(stats.totals, e.queryInfo?.stats);
+        }
+
+        const path = findErrorPath(input, e.queryInfo?.summary);
+        if (e instanceof AbortError && isFieldAbortPayload(e.abort)) {
+          const { message, code, extensions, path: subPath } = e.abort;
+          throw new GraphQLError(message, {
+            path: path && subPath ? [...path, ...subPath] : path,
+            originalError: e,
+            extensions: {
+              ...extensions,
+              code: code ?? ErrorCode.BACKEND_ERROR,
+            },
+          });
+        }
 
-        throw new GraphQLError(e.code, { originalError: e });
+        throw new GraphQLError(e.message || e.code, {
+          path,
+          originalError: e,
+          extensions: {
+            code: ErrorCode.BACKEND_ERROR,
+            fauna: {
+              code: e.code,
+              ...(e.constraint_failures && {
+                constraint_failures: e.constraint_failures,
+              }),
+              ...(e instanceof AbortError && { abort: e.abort }),
+            },
+          },
+        });
       }
     },
+    explainDeferredValues: (input) => queryToString(combineQueries(input)),
     isDeferredValue: (value: unknown): value is Query => {
       return isExpr(value) || isV4Expr(value);
     },
@@ -571,8 +1008,21 @@ export default function createExecutorBackend(
         },
       );
     },
-    getErrorMessage(value) {
-      return (value as any)?.["@error"] ?? null;
+    getError: getErrorSentinel,
+    isQueryError: (error) => {
+      // auth, throttling, contention and timeouts fail any part of a batch
+      const cause = error instanceof GraphQLError ? error.originalError : error;
+      return (
+        cause instanceof QueryRuntimeError ||
+        cause instanceof QueryCheckError ||
+        cause instanceof ConstraintFailureError ||
+        cause instanceof AbortError
+      );
+    },
+    batchSerialMutations: options.batchMutations ?? false,
+    getResultExtensions: (executionArgs, execution) => {
+      const stats = includeStats && getExecutionStats(executionArgs, execution);
+      return stats ? { fauna: { stats: { ...stats.totals } } } : undefined;
     },
   };
 }
@@ -0,0 +1,316 @@
+import { describe, expect, test } from "@jest/globals";
+import { QueryRuntimeError, fql } from "fauna";
+import {
+  type ExecutionResult,
+  GraphQLError,
+  type GraphQLFieldResolver,
+  GraphQLInt,
+  GraphQLList,
+  GraphQLNonNull,
+  GraphQLObjectType,
+  type GraphQLOutputType,
+  GraphQLSchema,
+  GraphQLString,
+  defaultFieldResolver,
+  execute,
+  parse,
+} from "graphql";
+import { createExecuteFn } from "../executor";
+import createExecutorBackend from "./faunadbV10";
+
+function fail(message: string): never {
+  throw new Error(message);
+}
+
+const itemType: GraphQLObjectType = new GraphQLObjectType({
+  name: "Item",
+  fields: () => ({
+    id: { type: GraphQLInt },
+    name: { type: GraphQLString },
+    nonNullName: { type: new GraphQLNonNull(GraphQLString) },
+    failing: {
+      type: GraphQLString,
+      resolve: () => fail("failing"),
+    },
+    nonNullFailing: {
+      type: new GraphQLNonNull(GraphQLString),
+      resolve: () => fail("nonNullFailing"),
+    },
+    child: {
+      type: itemType,
+      resolve: (item) => item.child,
+    },
+    nonNullChild: {
+      type: new GraphQLNonNull(itemType),
+      resolve: (item) => item.child,
+    },
+  }),
+});
+
+const items = [
+  { id: 1, name: "one", nonNullName: "one", child: { id: 11, name: null } },
+  { id: 2, name: null, nonNullName: null, child: null },
+  { id: 3, name: "three", nonNullName: "three", child: { id: 33 } },
+];
+
+const schema = new GraphQLSchema({
+  query: new GraphQLObjectType({
+    name: "Query",
+    fields: {
+      items: {
+        type: new GraphQLList(itemType),
+        resolve: () => items,
+      },
+      nonNullItems: {
+        type: new GraphQLList(new GraphQLNonNull(itemType)),
+        resolve: () => items,
+      },
+      nonNullList: {
+        type: new GraphQLNonNull(new GraphQLList(itemType)),
+        resolve: () => items,
+      },
+      nullableScalars: {
+        type: new GraphQLList(GraphQLString),
+        resolve: () => ["a", null, "c"],
+      },
+      nonNullScalars: {
+        type: new GraphQLList(new GraphQLNonNull(GraphQLString)),
+        resolve: () => ["a", null, "c"],
+      },
+      item: {
+        type: itemType,
+        resolve: () => items[0],
+      },
+      nonNullItem: {
+        type: new GraphQLNonNull(itemType),
+        resolve: () => items[1],
+      },
+      failing: {
+        type: GraphQLString,
+        resolve: () => fail("failing"),
+      },
+      nonNullFailing: {
+        type: new GraphQLNonNull(GraphQLString),
+        resolve: () => fail("nonNullFailing"),
+      },
+      hello: {
+        type: GraphQLString,
+        resolve: () => "world",
+      },
+    },
+  }),
+});
+
+const executeFn = createExecuteFn(
+  createExecutorBackend({
+    // NOTE: none of the resolvers return deferred values,
+    //       so this client is never used
+    endpoint: new URL("http://localhost:8443"),
+    secret: "secret",
+    http2_session_idle_ms: 100,
+  }),
+);
+
+function normalize(result: ExecutionResult) {
+  return {
+    data: JSON.parse(JSON.stringify(result.data ?? null)),
+    errorPaths: Array.from(result.errors ?? [], (error) =>
+      JSON.stringify(error.path),
+    ).sort(),
+  };
+}
+
+async function expectSameResult(query: string) {
+  const document = parse(query);
+  const expected = normalize(await execute({ schema, document }));
+  const actual = normalize(await executeFn({ schema, document }));
+  expect(actual).toStrictEqual(expected);
+}
+
+const deferredItemType: GraphQLObjectType = new GraphQLObjectType({
+  name: "DeferredItem",
+  fields: () => ({
+    id: { type: GraphQLInt },
+    name: { type: GraphQLString },
+    nonNullName: { type: new GraphQLNonNull(GraphQLString) },
+    child: { type: deferredItemType },
+    nonNullChild: { type: new GraphQLNonNull(deferredItemType) },
+  }),
+});
+
+// what the backend returns for each root field, where `@error` sentinels are
+// errors that graphql-js gets from throwing resolvers instead
+const backendData: Record<string, unknown> = {
+  item: {
+    id: 1,
+    name: { "@error": "name failed" },
+    nonNullName: "one",
+    child: { id: 11, name: "eleven", nonNullName: null },
+  },
+  nonNullItem: { id: 2, name: "two", nonNullName: { "@error": "failed" } },
+  failedItem: { "@error": "item failed" },
+  items: [
+    { id: 1, name: "one", nonNullName: "one" },
+    { id: 2, name: null, nonNullName: null },
+    null,
+  ],
+  nonNullItems: [{ id: 1, nonNullName: "one", child: null }, null],
+  nonNullList: [{ id: 1, nonNullName: { "@error": "failed" } }],
+  brokenItem: { "@error": "backend failed" },
+  nonNullBrokenItem: { "@error": "backend failed" },
+  nonNullLocatedItem: { id: 3, nonNullName: { "@error": "backend failed" } },
+};
+
+// backend calls with these root fields fail, optionally reporting the path
+// below the root field that failed
+const backendFailures: Record<string, string[] | undefined> = {
+  brokenItem: undefined,
+  nonNullBrokenItem: undefined,
+  nonNullLocatedItem: ["nonNullName"],
+};
+
+const deferredRootTypes: Record<string, GraphQLOutputType> = {
+  item: deferredItemType,
+  nonNullItem: new GraphQLNonNull(deferredItemType),
+  failedItem: deferredItemType,
+  items: new GraphQLList(deferredItemType),
+  nonNullItems: new GraphQLList(new GraphQLNonNull(deferredItemType)),
+  nonNullList: new GraphQLNonNull(new GraphQLList(deferredItemType)),
+  brokenItem: deferredItemType,
+  nonNullBrokenItem: new GraphQLNonNull(deferredItemType),
+  nonNullLocatedItem: new GraphQLNonNull(deferredItemType),
+};
+
+function makeDeferredSchema(resolve: (name: string) => unknown) {
+  return new GraphQLSchema({
+    query: new GraphQLObjectType({
+      name: "Query",
+      fields: {
+        hello: { type: GraphQLString, resolve: () => "world" },
+        ...Object.fromEntries(
+          Object.entries(deferredRootTypes).map(([name, type]) => [
+            name,
+            { type, resolve: () => resolve(name) },
+          ]),
+        ),
+      },
+    }),
+  });
+}
+
+function throwSentinel(value: any): unknown {
+  if (value?.["@error"]) {
+    throw new Error(value["@error"]);
+  }
+
+  return value;
+}
+
+const referenceSchema = makeDeferredSchema((name) =>
+  throwSentinel(backendData[name]),
+);
+const referenceFieldResolver: GraphQLFieldResolver<unknown, unknown> = (
+  ...args
+) => throwSentinel(defaultFieldResolver(...args));
+
+const deferredSchema = makeDeferredSchema((name) => fql([`ROOT_${name}`]));
+const executeDeferredFn = createExecuteFn(
+  createExecutorBackend(
+    {
+      endpoint: new URL("http://localhost:8443"),
+      secret: "secret",
+      http2_session_idle_ms: 100,
+    },
+    {
+      queryMiddleware: () => async (_client, query) => {
+        const names = Array.from(
+          JSON.stringify(query.encode()).matchAll(/ROOT_(\w+)/g),
+          ([, name]) => name,
+        );
+        const failed = names.find((name) => name in backendFailures);
+        if (failed) {
+          const path = backendFailures[failed];
+          if (!path) {
+            // located by bisecting the batch
+            throw new QueryRuntimeError(
+              { error: { code: "invalid_query", message: "backend failed" } },
+              400,
+            );
+          }
+
+          throw new GraphQLError("backend failed", { path: [failed, ...path] });
+        }
+
+        return { data: names.map((name) => backendData[name]) } as any;
+      },
+    },
+  ),
+);
+
+async function expectSameDeferredResult(query: string) {
+  const document = parse(query);
+  const expected = normalize(
+    await execute({
+      schema: referenceSchema,
+      document,
+      fieldResolver: referenceFieldResolver,
+    }),
+  );
+  const actual = normalize(
+    await executeDeferredFn({ schema: deferredSchema, document }),
+  );
+  expect(actual).toStrictEqual(expected);
+}
+
+describe("null propagation matches graphql-js", () => {
+  test.each([
+    ["no errors", "{ hello item { id name } }"],
+    ["nullable field error", "{ hello failing }"],
+    ["non-null root field error", "{ hello nonNullFailing }"],
+    ["non-null root object", "{ hello nonNullItem { id nonNullName } }"],
+    ["nullable list items", "{ items { id failing } }"],
+    ["nullable list items with non-null field", "{ items { id nonNullName } }"],
+    ["non-null list items", "{ hello nonNullItems { id nonNullName } }"],
+    ["non-null list", "{ hello nonNullList { id nonNullFailing } }"],
+    ["nullable scalar items", "{ nullableScalars }"],
+    ["non-null scalar items", "{ hello nonNullScalars }"],
+    ["nested non-null object", "{ items { id nonNullChild { id } } }"],
+    [
+      "deeply nested non-null",
+      "{ hello items { id child { id nonNullChild { nonNullName } } } }",
+    ],
+    [
+      "multiple errors",
+      "{ hello failing item { failing nonNullChild { id } } items { nonNullFailing } }",
+    ],
+  ])("%s", async (_, query) => {
+    await expectSameResult(query);
+  });
+});
+
+describe("null propagation of deferred values matches graphql-js", () => {
+  test.each([
+    ["error sentinel", "{ hello item { id name } }"],
+    [
+      "error sentinel at a non-null field",
+      "{ hello nonNullItem { nonNullName } }",
+    ],
+    ["error sentinel in place of an object", "{ hello failedItem { id } }"],
+    ["nested non-null field", "{ hello item { id child { id nonNullName } } }"],
+    ["nested non-null object", "{ hello item { id nonNullChild { id } } }"],
+    ["nullable list items", "{ hello items { id nonNullName } }"],
+    ["non-null list items", "{ hello nonNullItems { id } }"],
+    ["non-null list", "{ hello nonNullList { id nonNullName } }"],
+    ["failed backend call", "{ hello item { id } brokenItem { id } }"],
+    [
+      "failed backend call at a non-null field",
+      "{ hello item { id } nonNullBrokenItem { id } }",
+    ],
+    [
+      "backend error below a non-null field",
+      "{ hello item { id } nonNullLocatedItem { id nonNullName } }",
+    ],
+  ])("%s", async (_, query) => {
+    await expectSameDeferredResult(query);
+  });
+});
@@ -1,9 +1,10 @@
 import { expect, test, describe } from "@jest/globals";
 import createExecutorBackend, {
   type CreateExecutorBackendOptions,
+  fieldError,
   fql,
 } from "./faunadbV10";
-import type { Path } from "graphql/jsutils/Path";
+import { type Path, pathToArray } from "graphql/jsutils/Path";
 import {
   type FieldNode,
   GraphQLObjectType,
@@ -15,18 +16,33 @@ import {
   GraphQLString,
   type GraphQLFieldConfig,
   parse,
+  type ExecutionArgs,
   type ExecutionResult,
   GraphQLInt,
   GraphQLUnionType,
   getNamedType,
   GraphQLInterfaceType,
+  GraphQLError,
 } from "graphql";
-import { Client, type Query } from "fauna";
+import {
+  AbortError,
+  Client,
+  NetworkError,
+  type Query,
+  type QueryOptions,
+  type QueryValue,
+  QueryRuntimeError,
+} from "fauna";
 import {
   createExecuteFn,
+  createExplainFn,
+  createPlanFn,
+  createSubscribeFn,
   type WrappedValue,
   type ExpandedChild,
   type GraphQLCompositeOutputType,
+  type CancellationArgs,
+  type ExecutionLimits,
 } from "../executor";
 import { flattenMiddleware } from "../utils";
 
@@ -407,6 +423,7 @@ describe("executor", () => {
     schema: GraphQLSchema,
     query: string,
     backendOptions: CreateExecutorBackendOptions = {},
+    extraArgs: Partial<ExecutionArgs & CancellationArgs> = {},
   ): Promise<[ExecutionResult<any>, number]> {
     let count = 0;
     const executeFn = createExecuteFn(
@@ -430,6 +447,7 @@ describe("executor", () => {
       JSON.parse(
         JSON.stringify(
           await executeFn({
+            ...extraArgs,
             schema,
             document: parse(query),
           }),
@@ -1074,4 +1092,1366 @@ describe("executor", () => {
       ]);
     });
   });
+
+  describe("directives", () => {
+    const barType = new GraphQLObjectType({
+      name: "Bar",
+      fields: {
+        bar: { type: GraphQLString },
+        baz: { type: GraphQLString },
+      },
+    });
+
+    test("literal skip and include", async () => {
+      expect(
+        await execute(
+          makeSchema({
+            foo: {
+              type: barType,
+              resolve: () => ({ bar: "bar", baz: "baz" }),
+            },
+          }),
+          "query ($yes: Boolean!, $no: Boolean!) { foo { bar @skip(if: $yes) baz @include(if: $yes) } other: foo @include(if: $no) { bar } }",
+          {},
+          { variableValues: { yes: true, no: false } },
+        ),
+      ).toStrictEqual([{ data: { foo: { baz: "baz" } } }, 0]);
+    });
+
+    test("fragments", async () => {
+      expect(
+        await execute(
+          makeSchema({
+            foo: {
+              type: barType,
+              resolve: () => ({ bar: "bar", baz: "baz" }),
+            },
+          }),
+          "query ($skip: Boolean!) { foo { ... on Bar @skip(if: $skip) { bar } ...Baz @include(if: true) } } fragment Baz on Bar { baz }",
+          {},
+          { variableValues: { skip: true } },
+        ),
+      ).toStrictEqual([{ data: { foo: { baz: "baz" } } }, 0]);
+    });
+
+    test("deferred skipped fields are not queried", async () => {
+      let encoded = "";
+      expect(
+        await execute(
+          makeSchema({
+            foo: {
+              type: barType,
+              resolve: () => fql`{ bar: "bar", baz: "baz" }`,
+            },
+          }),
+          "query ($skip: Boolean!) { foo { bar baz @skip(if: $skip) } }",
+          {
+            queryMiddleware: () => async (_client, query) => {
+              encoded = JSON.stringify(query.encode());
+              return { data: [{ bar: "bar" }] } as any;
+            },
+          },
+          { variableValues: { skip: true } },
+        ),
+      ).toStrictEqual([{ data: { foo: { bar: "bar" } } }, 1]);
+      expect(encoded).toContain("START OF bar");
+      expect(encoded).not.toContain("START OF baz");
+    });
+  });
+
+  describe("subscriptions", () => {
+    const schema = new GraphQLSchema({
+      query: new GraphQLObjectType({
+        name: "Query",
+        fields: { noop: { type: GraphQLInt } },
+      }),
+      subscription: new GraphQLObjectType({
+        name: "Subscription",
+        fields: {
+          counter: {
+            type: new GraphQLObjectType({
+              name: "Counter",
+              fields: {
+                literal: { type: GraphQLInt },
+                deferred: {
+                  type: GraphQLInt,
+                  resolve: (v: { literal: number }) => fql`${v.literal} * 10`,
+                },
+              },
+            }),
+            args: { to: { type: GraphQLInt } },
+            subscribe: async function* (_, { to }: { to: number }) {
+              for (let i = 1; i <= to; i++) {
+                yield i;
+              }
+            },
+            resolve: (i: number) => ({ literal: i }),
+          },
+        },
+      }),
+    });
+
+    test("executes each event", async () => {
+      const queries: string[] = [];
+      const subscribe = createSubscribeFn(
+        createExecutorBackend(client, {
+          queryMiddleware: () => async (_client, query) => {
+            const encoded = JSON.stringify(query.encode());
+            queries.push(encoded);
+            return { data: [Number(/(\d+)/.exec(encoded)![1]) * 10] } as any;
+          },
+        }),
+      );
+
+      const stream = await subscribe({
+        schema,
+        document: parse("subscription { counter(to: 2) { literal deferred } }"),
+      });
+      if (!(Symbol.asyncIterator in stream)) {
+        throw new Error("expected an async iterable");
+      }
+
+      const results: ExecutionResult[] = [];
+      for await (const result of stream) {
+        results.push(JSON.parse(JSON.stringify(result)));
+      }
+
+      expect(results).toStrictEqual([
+        { data: { counter: { literal: 1, deferred: 10 } } },
+        { data: { counter: { literal: 2, deferred: 20 } } },
+      ]);
+      expect(queries).toHaveLength(2);
+    });
+
+    test("non-iterable subscribe result", async () => {
+      const subscribe = createSubscribeFn(createExecutorBackend(client));
+      const result = await subscribe({
+        schema: new GraphQLSchema({
+          query: schema.getQueryType(),
+          subscription: new GraphQLObjectType({
+            name: "Subscription",
+            fields: {
+              bad: { type: GraphQLInt, subscribe: () => 1 },
+            },
+          }),
+        }),
+        document: parse("subscription { bad }"),
+      });
+
+      expect(JSON.parse(JSON.stringify(result))).toStrictEqual({
+        errors: [
+          {
+            locations: [{ column: 16, line: 1 }],
+            message:
+              "Subscription field must return Async Iterable. Received: 1.",
+            path: ["bad"],
+          },
+        ],
+      });
+    });
+  });
+
+  describe("operation selection", () => {
+    const schema = makeSchema({
+      foo: { type: GraphQLInt, resolve: () => 1 },
+      bar: { type: GraphQLInt, resolve: () => 2 },
+    });
+    const query = "query Foo { foo } query Bar { bar }";
+
+    test("by name", async () => {
+      expect(
+        await execute(schema, query, {}, { operationName: "Bar" }),
+      ).toStrictEqual([{ data: { bar: 2 } }, 0]);
+    });
+
+    test("unknown name", async () => {
+      expect(
+        await execute(schema, query, {}, { operationName: "Baz" }),
+      ).toStrictEqual([
+        {
+          errors: [
+            {
+              message: 'Unknown operation named "Baz".',
+              extensions: { code: "OPERATION_RESOLUTION_FAILURE" },
+            },
+          ],
+        },
+        0,
+      ]);
+    });
+
+    test("missing name", async () => {
+      expect(await execute(schema, query)).toStrictEqual([
+        {
+          errors: [
+            {
+              message:
+                "Must provide operation name if query contains multiple operations.",
+              extensions: { code: "OPERATION_RESOLUTION_FAILURE" },
+            },
+          ],
+        },
+        0,
+      ]);
+    });
+  });
+
+  describe("mutations", () => {
+    function makeMutationSchema(
+      fields: Record<string, GraphQLFieldConfig<any, any, any>>,
+    ) {
+      return new GraphQLSchema({
+        query: new GraphQLObjectType({
+          name: "Query",
+          fields: { noop: { type: GraphQLInt } },
+        }),
+        mutation: new GraphQLObjectType({
+          name: "Mutation",
+          fields,
+        }),
+      });
+    }
+
+    test("root fields run serially", async () => {
+      const log: string[] = [];
+      const field = (name: string, delay: number) => ({
+        type: GraphQLInt,
+        resolve: async () => {
+          log.push(`${name} start`);
+          await new Promise((resolve) => setTimeout(resolve, delay));
+          log.push(`${name} end`);
+          return delay;
+        },
+      });
+
+      expect(
+        await execute(
+          makeMutationSchema({ a: field("a", 20), b: field("b", 0) }),
+          "mutation { a b }",
+        ),
+      ).toStrictEqual([{ data: { a: 20, b: 0 } }, 0]);
+      expect(log).toStrictEqual(["a start", "a end", "b start", "b end"]);
+    });
+
+    describe("deferred", () => {
+      const schema = makeMutationSchema({
+        a: { type: GraphQLInt, resolve: () => fql`1` },
+        b: { type: GraphQLInt, resolve: () => fql`2` },
+      });
+
+      function mockQuery(queries: number[]): CreateExecutorBackendOptions {
+        return {
+          queryMiddleware: () => async (_client, query) => {
+            const data = Array.from(
+              JSON.stringify(query.encode()).matchAll(/"fql":\["(\d)"\]/g),
+              ([, n]) => Number(n),
+            );
+            queries.push(data.length);
+            return { data } as any;
+          },
+        };
+      }
+
+      test("batched", async () => {
+        const queries: number[] = [];
+        expect(
+          await execute(schema, "mutation { a b }", {
+            ...mockQuery(queries),
+            batchMutations: true,
+          }),
+        ).toStrictEqual([{ data: { a: 1, b: 2 } }, 1]);
+        expect(queries).toStrictEqual([2]);
+      });
+
+      test("batched within their stage", async () => {
+        const log: string[] = [];
+        const field = (name: string) => ({
+          type: GraphQLInt,
+          resolve: () => {
+            log.push(`resolve ${name}`);
+            return fql`1`;
+          },
+        });
+        await createExecuteFn(
+          createExecutorBackend(client, {
+            ...mockQuery([]),
+            batchMutations: true,
+          }),
+          {
+            onStageStart: ({ stage }) => {
+              log.push(`start ${stage}`);
+            },
+            onStageEnd: ({ stage }) => {
+              log.push(`end ${stage}`);
+            },
+          },
+        )({
+          schema: makeMutationSchema({ a: field("a"), b: field("b") }),
+          document: parse("mutation { a b }"),
+        });
+        expect(log).toStrictEqual([
+          "start 0",
+          "resolve a",
+          "resolve b",
+          "end 0",
+        ]);
+      });
+
+      test("unbatched", async () => {
+        const queries: number[] = [];
+        expect(
+          await execute(schema, "mutation { a b }", mockQuery(queries)),
+        ).toStrictEqual([{ data: { a: 1, b: 2 } }, 2]);
+        expect(queries).toStrictEqual([1, 1]);
+      });
+    });
+  });
+
+  describe("cancellation", () => {
+    const schema = makeSchema({
+      literal: { type: GraphQLInt, resolve: () => 1 },
+      deferred: { type: GraphQLInt, resolve: () => fql`2` },
+    });
+
+    test("aborted signal", async () => {
+      const controller = new AbortController();
+      controller.abort(new Error("client went away"));
+
+      expect(
+        await execute(schema, "{ literal deferred }", {}, {
+          signal: controller.signal,
+        } as Partial<ExecutionArgs>),
+      ).toStrictEqual([
+        {
+          data: { literal: null, deferred: null },
+          errors: [
+            {
+              message: "client went away",
+              path: ["literal"],
+              extensions: { code: "EXECUTION_ABORTED" },
+            },
+            {
+              message: "client went away",
+              path: ["deferred"],
+              extensions: { code: "EXECUTION_ABORTED" },
+            },
+          ],
+        },
+        0,
+      ]);
+    });
+
+    test("deadline during backend call", async () => {
+      let options: QueryOptions | undefined;
+      expect(
+        await execute(
+          schema,
+          "{ literal deferred }",
+          {
+            queryMiddleware: () => async (_client, _query, _args, opts) => {
+              options = opts;
+              await new Promise((resolve) => setTimeout(resolve, 200));
+              return { data: [2] } as any;
+            },
+          },
+          { deadline: Date.now() + 50 },
+        ),
+      ).toStrictEqual([
+        {
+          data: { literal: 1, deferred: null },
+          errors: [
+            {
+              message: "Execution deadline exceeded",
+              path: ["deferred"],
+              extensions: { code: "EXECUTION_ABORTED" },
+            },
+          ],
+        },
+        1,
+      ]);
+      expect(options?.query_timeout_ms).toBeLessThanOrEqual(50);
+    });
+
+    test("abort while choosing the client", async () => {
+      const controller = new AbortController();
+      expect(
+        await execute(
+          schema,
+          "{ literal deferred }",
+          {
+            resolveClient: async () => {
+              controller.abort(new Error("client went away"));
+              await new Promise((resolve) => setTimeout(resolve, 10));
+              return {};
+            },
+            queryMiddleware: () => async () => {
+              throw new Error("should not run");
+            },
+          },
+          { signal: controller.signal } as Partial<ExecutionArgs>,
+        ),
+      ).toStrictEqual([
+        {
+          data: { literal: 1, deferred: null },
+          errors: [
+            {
+              message: "client went away",
+              path: ["deferred"],
+              extensions: { code: "EXECUTION_ABORTED" },
+            },
+          ],
+        },
+        0,
+      ]);
+    });
+
+    test("far-off deadline", async () => {
+      expect(
+        await execute(
+          schema,
+          "{ literal deferred }",
+          {
+            queryMiddleware: () => async () => {
+              await new Promise((resolve) => setTimeout(resolve, 20));
+              return { data: [2] } as any;
+            },
+          },
+          { deadline: Date.now() + 30 * 24 * 60 * 60 * 1000 },
+        ),
+      ).toStrictEqual([{ data: { literal: 1, deferred: 2 } }, 1]);
+    });
+  });
+
+  describe("explain", () => {
+    const Thing = new GraphQLObjectType({
+      name: "Thing",
+      fields: {
+        id: { type: GraphQLString },
+        upper: {
+          type: GraphQLString,
+          resolve: async (src) => (await src).id.toUpperCase(),
+        },
+      },
+    });
+    const schema = makeSchema({
+      literal: { type: GraphQLString, resolve: () => "x" },
+      thing: { type: Thing, resolve: () => fql`Thing.byId("1")` },
+    });
+
+    test("lists stages without running queries", async () => {
+      let count = 0;
+      const explain = createExplainFn(
+        createExecutorBackend(client, {
+          queryMiddleware: () => async () => {
+            count++;
+            throw new Error("should not run");
+          },
+        }),
+      );
+
+      const result = await explain({
+        schema,
+        document: parse("{ literal thing { id upper } }"),
+        stageResults: [[{ id: "a" }]],
+      });
+      expect(count).toBe(0);
+      expect(result.data).toStrictEqual({
+        literal: "x",
+        thing: { id: "a", upper: "A" },
+      });
+      expect(result.errors).toBeUndefined();
+
+      const { stages } = result.extensions!.explain;
+      expect(stages).toHaveLength(1);
+      expect(stages[0].query).toMatch(/^\[\{let thing:Any=Thing\.byId\("1"\);/);
+      expect(stages[0].query).toContain("// -- START OF id");
+      expect(stages[0].paths).toStrictEqual([["thing"]]);
+      expect(stages[0].restaged).toStrictEqual([
+        {
+          path: ["thing", "upper"],
+          field: "Thing.upper",
+          reason: "The field resolver awaited its deferred source value.",
+        },
+      ]);
+    });
+
+    test("unmocked stages resolve to null", async () => {
+      const explain = createExplainFn(createExecutorBackend(client));
+
+      const result = await explain({
+        schema,
+        document: parse("{ literal thing { id } }"),
+      });
+      expect(result.data).toStrictEqual({ literal: "x", thing: null });
+      expect(result.extensions!.explain.stages).toHaveLength(1);
+    });
+
+    test("runs the execution hooks", async () => {
+      const log: string[] = [];
+      const explain = createExplainFn(createExecutorBackend(client), {
+        onExecuteStart: () => {
+          log.push("execute start");
+        },
+        onValidate: () => {
+          throw new Error("invalid");
+        },
+        errorFormatter: (error) =>
+          new GraphQLError(`formatted ${error.message}`),
+        onResult: ({ result }) => {
+          log.push(`result ${result.errors?.[0].message}`);
+        },
+      });
+
+      const result = await explain({
+        schema,
+        document: parse("{ literal thing { id } }"),
+      });
+      expect(log).toStrictEqual(["execute start", "result formatted invalid"]);
+      expect(result.errors?.map(({ message }) => message)).toStrictEqual([
+        "formatted invalid",
+      ]);
+      expect(result.extensions!.explain.stages).toHaveLength(1);
+    });
+  });
+
+  test("lifecycle hooks", async () => {
+    const Thing = new GraphQLObjectType({
+      name: "Thing",
+      fields: {
+        id: { type: GraphQLString },
+        upper: {
+          type: GraphQLString,
+          resolve: async (src) => (await src).id.toUpperCase(),
+        },
+      },
+    });
+
+    const log: unknown[] = [];
+    const executeFn = createExecuteFn(
+      createExecutorBackend(client, {
+        queryMiddleware: () => async () => ({ data: [{ id: "a" }] }) as any,
+      }),
+      {
+        onExecuteStart: () => {
+          log.push("execute start");
+        },
+        onStageStart: ({ stage, paths }) => {
+          log.push(["stage start", stage, paths]);
+        },
+        onStageEnd: ({ stage, deferredValueCount }) => {
+          log.push(["stage end", stage, deferredValueCount]);
+        },
+        onRestage: ({ stage, paths }) => {
+          log.push(["restage", stage, paths]);
+        },
+        onValidate: ({ data }) => {
+          log.push(["validate", JSON.parse(JSON.stringify(data))]);
+        },
+        onResult: [
+          ({ result }) => {
+            result.extensions = { first: true };
+          },
+          ({ result, setResult }) => {
+            setResult({
+              ...result,
+              extensions: { ...result.extensions, second: true },
+            });
+          },
+        ],
+      },
+    );
+
+    expect(
+      await executeFn({
+        schema: makeSchema({
+          literal: { type: GraphQLInt, resolve: () => 1 },
+          thing: { type: Thing, resolve: () => fql`Thing.byId("1")` },
+        }),
+        document: parse("{ literal thing { id upper } }"),
+      }),
+    ).toStrictEqual({
+      data: { literal: 1, thing: { id: "a", upper: "A" } },
+      extensions: { first: true, second: true },
+    });
+    expect(log).toStrictEqual([
+      "execute start",
+      ["stage start", 0, [["literal"], ["thing"]]],
+      ["restage", 0, [["thing", "upper"]]],
+      ["stage end", 0, 1],
+      ["stage start", 1, [["thing", "upper"]]],
+      ["stage end", 1, 0],
+      ["validate", { literal: 1, thing: { id: "a", upper: "A" } }],
+    ]);
+  });
+
+  describe("limits", () => {
+    const Node: GraphQLObjectType = new GraphQLObjectType({
+      name: "Node",
+      fields: () => ({
+        id: { type: GraphQLString },
+        next: {
+          type: Node,
+          resolve: async (src) => {
+            await src;
+            return fql`{ id: "next" }`;
+          },
+        },
+      }),
+    });
+    const schema = makeSchema({
+      node: { type: Node, resolve: () => fql`{ id: "root" }` },
+      a: { type: GraphQLInt, resolve: () => fql`1` },
+      b: { type: GraphQLInt, resolve: () => fql`2` },
+    });
+
+    function execute(
+      query: string,
+      limits: ExecutionLimits,
+    ): Promise<ExecutionResult> {
+      return createExecuteFn(
+        createExecutorBackend(client, {
+          queryMiddleware: () => async (_client, query) =>
+            ({
+              data: Array.from(
+                JSON.stringify(query.encode()).matchAll(/START OF (\w+)/g),
+                ([, key]) => (key === "id" ? { id: "x" } : 1),
+              ),
+            }) as any,
+        }),
+        { limits },
+      )({ schema, document: parse(query) });
+    }
+
+    test("max stages", async () => {
+      expect(
+        JSON.parse(
+          JSON.stringify(
+            await execute("{ node { id next { id next { id } } } }", {
+              maxStages: 2,
+            }),
+          ),
+        ),
+      ).toStrictEqual({
+        data: { node: { id: "x", next: { id: "x", next: null } } },
+        errors: [
+          {
+            message: "Execution exceeded the limit of 2 stages.",
+            extensions: { code: "LIMIT_EXCEEDED" },
+            path: ["node", "next", "next"],
+          },
+        ],
+      });
+    });
+
+    test("max deferred values per stage", async () => {
+      expect(
+        JSON.parse(
+          JSON.stringify(
+            await execute("{ a b }", { maxDeferredValuesPerStage: 1 }),
+          ),
+        ),
+      ).toStrictEqual({
+        data: { a: null, b: null },
+        errors: [
+          {
+            message:
+              "Stage 0 exceeded the limit of 1 deferred values with 2 deferred values.",
+            extensions: { code: "LIMIT_EXCEEDED" },
+            path: ["a"],
+          },
+          {
+            message:
+              "Stage 0 exceeded the limit of 1 deferred values with 2 deferred values.",
+            extensions: { code: "LIMIT_EXCEEDED" },
+            path: ["b"],
+          },
+        ],
+      });
+    });
+
+    test("max backend calls", async () => {
+      expect(
+        JSON.parse(
+          JSON.stringify(
+            await execute("{ node { id next { id } } }", {
+              maxBackendCalls: 1,
+            }),
+          ),
+        ),
+      ).toStrictEqual({
+        data: { node: { id: "x", next: null } },
+        errors: [
+          {
+            message: "Execution exceeded the limit of 1 backend calls.",
+            extensions: { code: "LIMIT_EXCEEDED" },
+            path: ["node", "next"],
+          },
+        ],
+      });
+    });
+  });
+
+  test("duplicate errors are removed", async () => {
+    const Item = new GraphQLObjectType({
+      name: "Item",
+      fields: {
+        bad: {
+          type: GraphQLInt,
+          resolve: () => {
+            throw new Error("bad");
+          },
+        },
+      },
+    });
+
+    // both `item` fields resolve the same `bad` node of the fragment
+    expect(
+      await execute(
+        makeSchema({ item: { type: Item, resolve: () => ({}) } }),
+        "{ item { ...F } item { ...F __typename } } fragment F on Item { bad }",
+      ),
+    ).toStrictEqual([
+      {
+        data: { item: { bad: null, __typename: "Item" } },
+        errors: [
+          {
+            locations: [{ column: 65, line: 1 }],
+            message: "bad",
+            path: ["item", "bad"],
+          },
+        ],
+      },
+      0,
+    ]);
+  });
+
+  describe("failed batches", () => {
+    const schema = makeSchema({
+      a: { type: GraphQLInt, resolve: () => fql`1` },
+      b: { type: GraphQLInt, resolve: () => fql`bad` },
+      c: { type: GraphQLInt, resolve: () => fql`3` },
+      refused: { type: GraphQLInt, resolve: () => fql`refused` },
+    });
+
+    function execute(
+      batches: number[],
+      bisectFailedBatches?: boolean,
+      limits?: ExecutionLimits,
+      document = "{ a b c }",
+    ) {
+      return createExecuteFn(
+        createExecutorBackend(client, {
+          queryMiddleware: () => async (_client, query) => {
+            const encoded = JSON.stringify(query.encode());
+            const data = Array.from(
+              encoded.matchAll(/"fql":\["(\d|bad|refused)"\]/g),
+              ([, n]) => Number(n),
+            );
+            batches.push(data.length);
+            if (encoded.includes("refused")) {
+              throw new NetworkError(
+                "The network connection encountered a problem.",
+                {
+                  cause: new Error("connect ECONNREFUSED"),
+                },
+              );
+            }
+
+            if (encoded.includes("bad")) {
+              throw new QueryRuntimeError(
+                {
+                  error: { code: "invalid_query", message: "invalid query" },
+                },
+                400,
+              );
+            }
+
+            return { data } as any;
+          },
+        }),
+        { bisectFailedBatches, limits },
+      )({ schema, document: parse(document) });
+    }
+
+    test("bisect", async () => {
+      const batches: number[] = [];
+      expect(JSON.parse(JSON.stringify(await execute(batches)))).toStrictEqual({
+        data: { a: 1, b: null, c: 3 },
+        errors: [
+          {
+            message: "invalid query",
+            path: ["b"],
+            extensions: {
+              code: "BACKEND_ERROR",
+              fauna: { code: "invalid_query" },
+            },
+          },
+        ],
+      });
+      expect(batches).toStrictEqual([3, 2, 1, 1, 1]);
+    });
+
+    test("not for network errors", async () => {
+      const batches: number[] = [];
+      const aliases = Array.from({ length: 15 }, (_, i) => `a${i}: a`);
+      const result = await execute(
+        batches,
+        undefined,
+        undefined,
+        `{ refused ${aliases.join(" ")} }`,
+      );
+      expect(result.data).toStrictEqual({
+        refused: null,
+        ...Object.fromEntries(aliases.map((_, i) => [`a${i}`, null])),
+      });
+      expect(result.errors).toHaveLength(16);
+      expect(batches).toStrictEqual([16]);
+    });
+
+    test("without bisect", async () => {
+      const batches: number[] = [];
+      expect(
+        JSON.parse(JSON.stringify(await execute(batches, false))),
+      ).toStrictEqual({
+        data: { a: null, b: null, c: null },
+        errors: [
+          {
+            message: "invalid query",
+            path: ["a"],
+            extensions: {
+              code: "BACKEND_ERROR",
+              fauna: { code: "invalid_query" },
+            },
+          },
+          {
+            message: "invalid query",
+            path: ["b"],
+            extensions: {
+              code: "BACKEND_ERROR",
+              fauna: { code: "invalid_query" },
+            },
+          },
+          {
+            message: "invalid query",
+            path: ["c"],
+            extensions: {
+              code: "BACKEND_ERROR",
+              fauna: { code: "invalid_query" },
+            },
+          },
+        ],
+      });
+      expect(batches).toStrictEqual([3]);
+    });
+
+    test("bisect within the limit of backend calls", async () => {
+      const batches: number[] = [];
+      expect(
+        JSON.parse(
+          JSON.stringify(await execute(batches, true, { maxBackendCalls: 3 })),
+        ),
+      ).toStrictEqual({
+        data: { a: null, b: null, c: 3 },
+        errors: [
+          {
+            message: "Execution exceeded the limit of 3 backend calls.",
+            extensions: { code: "LIMIT_EXCEEDED" },
+            path: ["a"],
+          },
+          {
+            message: "Execution exceeded the limit of 3 backend calls.",
+            extensions: { code: "LIMIT_EXCEEDED" },
+            path: ["b"],
+          },
+        ],
+      });
+      expect(batches).toStrictEqual([3, 2, 1]);
+    });
+  });
+
+  describe("plan", () => {
+    const Thing = new GraphQLObjectType({
+      name: "Thing",
+      fields: {
+        id: { type: GraphQLString },
+        upper: {
+          type: GraphQLString,
+          resolve: async (src) => (await src).id.toUpperCase(),
+        },
+      },
+    });
+    const schema = makeSchema({
+      literal: { type: GraphQLString, resolve: () => "x" },
+      thing: { type: Thing, resolve: () => fql`Thing.byId("1")` },
+    });
+    const plan = createPlanFn(
+      createExecutorBackend(client, {
+        queryMiddleware: () => async () => {
+          throw new Error("should not run");
+        },
+      }),
+    );
+
+    test("drives the stages", async () => {
+      const execution = await plan({
+        schema,
+        document: parse("{ literal thing { id upper } }"),
+      });
+
+      const stage = await execution.nextStage();
+      expect(stage?.stage).toBe(0);
+      expect(stage?.values.map(([, path]) => pathToArray(path))).toStrictEqual([
+        ["thing"],
+      ]);
+      await execution.submitStageResults([{ id: "a" }]);
+
+      expect(await execution.nextStage()).toBeUndefined();
+      expect(await execution.getResult()).toStrictEqual({
+        data: { literal: "x", thing: { id: "a", upper: "A" } },
+      });
+    });
+
+    test("mismatched results", async () => {
+      const execution = await plan({
+        schema,
+        document: parse("{ thing { id } }"),
+      });
+
+      await execution.nextStage();
+      await execution.submitStageResults([]);
+
+      expect(await execution.nextStage()).toBeUndefined();
+      expect(
+        JSON.parse(JSON.stringify(await execution.getResult())),
+      ).toStrictEqual({
+        errors: [{ message: "Stage 0 expected 1 results but got 0." }],
+      });
+    });
+  });
+
+  describe("service errors", () => {
+    const Thing = new GraphQLObjectType({
+      name: "Thing",
+      fields: {
+        id: { type: GraphQLString },
+        bad: {
+          type: GraphQLString,
+          resolve: () => fql`abort({ reason: "nope" })`,
+        },
+      },
+    });
+    const schema = makeSchema({
+      thing: { type: Thing, resolve: () => fql`Thing.byId("1")` },
+      requiredThing: {
+        type: new GraphQLNonNull(Thing),
+        resolve: () => fql`Thing.byId("1")`,
+      },
+      things: {
+        type: new GraphQLList(Thing),
+        resolve: () => fql`Thing.all()`,
+      },
+      count: { type: GraphQLInt, resolve: () => fql`1` },
+      missing: {
+        type: GraphQLString,
+        resolve: () => fql`abort({ message: "Not found." })`,
+      },
+    });
+
+    function render(query: any): string {
+      if (typeof query === "string") {
+        return query;
+      }
+
+      if ("value" in query) {
+        return `\${${JSON.stringify(query.value)}}`;
+      }
+
+      return Array.isArray(query.fql)
+        ? query.fql.map(render).join("")
+        : render(query.fql);
+    }
+
+    function execute(
+      query: string,
+      abort: QueryValue = { reason: "nope" },
+      queries: string[] = [],
+      quoteLine: (line: string) => string = (line) => line,
+    ) {
+      return createExecuteFn(
+        createExecutorBackend(client, {
+          queryMiddleware: () => async (_client, query) => {
+            const rendered = render(query.encode());
+            queries.push(rendered);
+
+            const lines = rendered.split("\n");
+            const line = lines.findIndex((l) => l.includes("abort("));
+            if (line === -1) {
+              // only the count is left
+              return { data: [1] } as any;
+            }
+
+            // the layout of Fauna's summaries, which quote the source line
+            // and underline the failed expression
+            const column = lines[line].indexOf("abort(");
+            const gutter = " ".repeat(String(line + 1).length);
+            const summary = [
+              "error: Query aborted.",
+              `at *query*:${line + 1}:${column + 1}`,
+              `${gutter} |`,
+              `${line + 1} | ${quoteLine(lines[line])}`,
+              `${gutter} | ${" ".repeat(column)}${"^".repeat(lines[line].length - column)}`,
+              `${gutter} |`,
+            ].join("\n");
+            throw new AbortError(
+              {
+                error: { code: "abort", message: "Query aborted.", abort },
+                summary,
+              },
+              400,
+            );
+          },
+        }),
+      )({ schema, document: parse(query) });
+    }
+
+    test("are reported at the failed field", async () => {
+      const result = await execute("{ thing { id bad } }");
+      expect(result.data).toStrictEqual({ thing: null });
+      expect(
+        result.errors?.map(({ message, path, extensions }) => ({
+          message,
+          path,
+          extensions,
+        })),
+      ).toStrictEqual([
+        {
+          message: "Query aborted.",
+          path: ["thing", "bad"],
+          extensions: {
+            code: "BACKEND_ERROR",
+            fauna: { code: "abort", abort: { reason: "nope" } },
+          },
+        },
+      ]);
+    });
+
+    test("null out non-null fields without another error", async () => {
+      const result = await execute("{ requiredThing { id bad } }");
+      expect(result.data).toBeNull();
+      expect(
+        result.errors?.map(({ message, path }) => ({ message, path })),
+      ).toStrictEqual([
+        { message: "Query aborted.", path: ["requiredThing", "bad"] },
+      ]);
+    });
+
+    test("are located only when the summary quotes the same line", async () => {
+      const queries: string[] = [];
+      const result = await execute(
+        "{ count thing { id bad } }",
+        undefined,
+        queries,
+        (line) => line.replace("abort(", "abort ("),
+      );
+      expect(result.data).toStrictEqual({ count: 1, thing: null });
+      expect(result.errors?.map(({ path }) => path)).toStrictEqual([["thing"]]);
+      // the batch is bisected instead
+      expect(queries).toHaveLength(3);
+    });
+
+    test("stop at lists", async () => {
+      const result = await execute("{ things { id bad } }");
+      expect(result.errors?.map(({ path }) => path)).toStrictEqual([
+        ["things"],
+      ]);
+    });
+
+    test("structured aborts", async () => {
+      const queries: string[] = [];
+      const result = await execute(
+        "{ count missing }",
+        {
+          message: "Not found.",
+          code: "NOT_FOUND",
+          extensions: { id: "1" },
+        },
+        queries,
+      );
+      expect(JSON.parse(JSON.stringify(result))).toStrictEqual({
+        data: { count: 1, missing: null },
+        errors: [
+          {
+            message: "Not found.",
+            path: ["missing"],
+            extensions: { id: "1", code: "NOT_FOUND" },
+          },
+        ],
+      });
+
+      // the count is retried on its own
+      expect(queries).toHaveLength(2);
+      expect(queries[1]).toBe("[{1}]");
+    });
+
+    test("structured aborts with a path", async () => {
+      const result = await execute("{ things { id bad } }", {
+        message: "Not found.",
+        code: "NOT_FOUND",
+        path: [1, "bad"],
+      });
+      expect(result.errors?.map(({ path }) => path)).toStrictEqual([
+        ["things", 1, "bad"],
+      ]);
+    });
+  });
+
+  test("structured error sentinels", async () => {
+    const schema = makeSchema({
+      missing: {
+        type: GraphQLString,
+        resolve: () =>
+          fieldError({
+            message: fql`"Not found: " + "1"`,
+            code: "NOT_FOUND",
+            extensions: { id: "1" },
+          }),
+      },
+      invalid: {
+        type: GraphQLString,
+        resolve: () => fieldError({ message: "Invalid.", path: ["detail"] }),
+      },
+    });
+
+    let encoded = "";
+    const result = await createExecuteFn(
+      createExecutorBackend(client, {
+        queryMiddleware: () => async (_client, query) => {
+          encoded = JSON.stringify(query.encode());
+          return {
+            data: [
+              {
+                "@error": {
+                  message: "Not found: 1",
+                  code: "NOT_FOUND",
+                  extensions: { id: "1" },
+                  path: null,
+                },
+              },
+              {
+                "@error": {
+                  message: "Invalid.",
+                  code: null,
+                  extensions: null,
+                  path: ["detail"],
+                },
+              },
+            ],
+          } as any;
+        },
+      }),
+    )({ schema, document: parse("{ missing invalid }") });
+
+    expect(encoded).toContain('{\\"@error\\":{message:');
+    expect(JSON.parse(JSON.stringify(result))).toStrictEqual({
+      data: { missing: null, invalid: null },
+      errors: [
+        {
+          message: "Not found: 1",
+          locations: [{ line: 1, column: 3 }],
+          path: ["missing"],
+          extensions: { id: "1", code: "NOT_FOUND" },
+        },
+        {
+          message: "Invalid.",
+          locations: [{ line: 1, column: 11 }],
+          path: ["invalid", "detail"],
+        },
+      ],
+    });
+  });
+
+  test("error sentinels in place of lists with literal children", async () => {
+    const Item = new GraphQLObjectType({
+      name: "Item",
+      fields: { bar: { type: GraphQLString, resolve: () => "literal" } },
+    });
+    const schema = makeSchema({
+      foo: { type: new GraphQLList(Item), resolve: () => fql`Item.all()` },
+      ok: { type: GraphQLInt, resolve: () => fql`5` },
+    });
+
+    const result = await createExecuteFn(
+      createExecutorBackend(client, {
+        queryMiddleware: () => async () =>
+          ({ data: [{ "@error": "boom" }, 5] }) as any,
+      }),
+    )({ schema, document: parse("{ foo { bar } ok }") });
+
+    expect(JSON.parse(JSON.stringify(result))).toStrictEqual({
+      data: { foo: null, ok: 5 },
+      errors: [
+        {
+          message: "boom",
+          locations: [{ line: 1, column: 3 }],
+          path: ["foo"],
+        },
+      ],
+    });
+  });
+
+  test("clients are chosen per execution", async () => {
+    const schema = makeSchema({
+      value: { type: GraphQLInt, resolve: () => fql`1` },
+    });
+
+    const calls: Array<[Client, QueryOptions | undefined]> = [];
+    const execute = createExecuteFn(
+      createExecutorBackend(client, {
+        resolveClient: ({ contextValue }) => ({
+          secret: (contextValue as any).secret,
+          queryOptions: {
+            query_tags: { tenant: (contextValue as any).secret },
+          },
+        }),
+        queryMiddleware: () => async (client, _query, _args, options) => {
+          calls.push([client, options]);
+          return { data: [1] } as any;
+        },
+      }),
+    );
+
+    for (const secret of ["a", "b", "a"]) {
+      expect(
+        await execute({
+          schema,
+          document: parse("{ value }"),
+          contextValue: { secret },
+        }),
+      ).toStrictEqual({ data: { value: 1 } });
+    }
+
+    expect(
+      calls.map(([client, options]) => [
+        client.clientConfiguration.secret,
+        options,
+      ]),
+    ).toStrictEqual([
+      ["a", { query_tags: { tenant: "a" } }],
+      ["b", { query_tags: { tenant: "b" } }],
+      ["a", { query_tags: { tenant: "a" } }],
+    ]);
+    expect(calls[0][0]).not.toBe(client);
+    expect(calls[2][0]).toBe(calls[0][0]);
+  });
+
+  describe("query stats", () => {
+    const Node: GraphQLObjectType = new GraphQLObjectType({
+      name: "Node",
+      fields: () => ({
+        id: { type: GraphQLString },
+        next: {
+          type: Node,
+          resolve: async (src) => {
+            await src;
+            return fql`{ id: "next" }`;
+          },
+        },
+      }),
+    });
+    const schema = makeSchema({
+      node: { type: Node, resolve: () => fql`{ id: "root" }` },
+    });
+
+    function createExecute(options: CreateExecutorBackendOptions) {
+      return createExecuteFn(
+        createExecutorBackend(client, {
+          ...options,
+          queryMiddleware: () => async (_client, query) =>
+            ({
+              data: Array.from(
+                JSON.stringify(query.encode()).matchAll(/START OF (\w+)/g),
+                () => ({ id: "x" }),
+              ),
+              stats: {
+                compute_ops: 1,
+                read_ops: 8,
+                write_ops: 0,
+                query_time_ms: 5,
+                storage_bytes_read: 100,
+                storage_bytes_write: 0,
+                contention_retries: 0,
+                attempts: 1,
+              },
+            }) as any,
+        }),
+      );
+    }
+
+    function execute(
+      options: CreateExecutorBackendOptions,
+    ): Promise<ExecutionResult> {
+      return createExecute(options)({
+        schema,
+        document: parse("{ node { id next { id } } }"),
+      });
+    }
+
+    test("totals", async () => {
+      expect(await execute({ includeStats: true })).toStrictEqual({
+        data: { node: { id: "x", next: { id: "x" } } },
+        extensions: {
+          fauna: {
+            stats: {
+              compute_ops: 2,
+              read_ops: 16,
+              write_ops: 0,
+              query_time_ms: 10,
+              storage_bytes_read: 200,
+              storage_bytes_write: 0,
+              contention_retries: 0,
+              attempts: 2,
+            },
+          },
+        },
+      });
+    });
+
+    test("totals per execution with reused arguments", async () => {
+      const execute = createExecute({ includeStats: true });
+      const args = { schema, document: parse("{ node { id } }") };
+      await execute(args);
+      const result = await execute(args);
+      expect(result.extensions?.fauna).toMatchObject({
+        stats: { read_ops: 8, attempts: 1 },
+      });
+    });
+
+    test("budgets", async () => {
+      const result = await execute({ statsBudget: () => ({ read_ops: 5 }) });
+      expect(JSON.parse(JSON.stringify(result))).toStrictEqual({
+        data: { node: { id: "x", next: null } },
+        errors: [
+          {
+            message: "Execution exceeded the budget of 5 read_ops with 8.",
+            path: ["node", "next"],
+            extensions: {
+              code: "LIMIT_EXCEEDED",
+              fauna: {
+                stats: {
+                  compute_ops: 1,
+                  read_ops: 8,
+                  write_ops: 0,
+                  query_time_ms: 5,
+                  storage_bytes_read: 100,
+                  storage_bytes_write: 0,
+                  contention_retries: 0,
+                  attempts: 1,
+                },
+              },
+            },
+          },
+        ],
+      });
+    });
+  });
 });
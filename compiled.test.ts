@@ -0,0 +1,102 @@
+import { describe, expect, test } from "@jest/globals";
+import { Client } from "fauna";
+import {
+  type GraphQLFieldConfig,
+  GraphQLList,
+  GraphQLObjectType,
+  GraphQLSchema,
+  GraphQLString,
+  parse,
+} from "graphql";
+import createExecutorBackend from "./backends/faunadbV10";
+import { createExecuteFn } from "./executor";
+
+const client = new Client({
+  endpoint: new URL("http://localhost:8443"),
+  secret: "secret",
+
+  // NOTE: this stops jest from complaining about
+  //       not exiting "one second after the test run has completed".
+  http2_session_idle_ms: 100,
+});
+
+function makeSchema(fields: Record<string, GraphQLFieldConfig<any, any, any>>) {
+  return new GraphQLSchema({
+    query: new GraphQLObjectType({
+      name: "Query",
+      fields,
+    }),
+  });
+}
+
+describe("compiled selections", () => {
+  const Item = new GraphQLObjectType({
+    name: "Item",
+    fields: {
+      id: { type: GraphQLString },
+      name: { type: GraphQLString },
+    },
+  });
+
+  const fieldNodes: unknown[] = [];
+  const schema = makeSchema({
+    items: {
+      type: new GraphQLList(Item),
+      resolve: (_src, _args, _ctx, info) => {
+        fieldNodes.push(info.fieldNodes);
+        return [
+          { id: "1", name: "a" },
+          { id: "2", name: "b" },
+        ];
+      },
+    },
+  });
+  const execute = createExecuteFn(createExecutorBackend(client));
+  const document = parse(`
+    query ($withName: Boolean!) {
+      items { id ...ItemName @include(if: $withName) }
+    }
+
+    fragment ItemName on Item { name }
+  `);
+
+  test("are reused across executions", async () => {
+    fieldNodes.length = 0;
+    for (const withName of [true, true, false]) {
+      const result = await execute({
+        schema,
+        document,
+        variableValues: { withName },
+      });
+      expect(result).toStrictEqual({
+        data: {
+          items: [
+            { id: "1", ...(withName && { name: "a" }) },
+            { id: "2", ...(withName && { name: "b" }) },
+          ],
+        },
+      });
+    }
+
+    expect(fieldNodes).toHaveLength(3);
+    expect(fieldNodes[1]).toBe(fieldNodes[0]);
+    // a different @include condition selects different fields
+    expect(fieldNodes[2]).not.toBe(fieldNodes[0]);
+  });
+
+  test("keep inline fragments without a type condition", async () => {
+    expect(
+      await execute({
+        schema,
+        document: parse("{ items { id ... { name } } }"),
+      }),
+    ).toStrictEqual({
+      data: {
+        items: [
+          { id: "1", name: "a" },
+          { id: "2", name: "b" },
+        ],
+      },
+    });
+  });
+});
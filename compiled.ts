@@ -0,0 +1,267 @@
+import {
+  type DocumentNode,
+  type FieldNode,
+  type GraphQLCompositeType,
+  type GraphQLField,
+  GraphQLIncludeDirective,
+  GraphQLInterfaceType,
+  type GraphQLObjectType,
+  type GraphQLSchema,
+  GraphQLSkipDirective,
+  GraphQLUnionType,
+  Kind,
+  type OperationDefinitionNode,
+  type SelectionNode,
+  visit,
+} from "graphql";
+import { getFieldDef } from "graphql/execution/execute";
+import { extractOperationAndFragments } from "./ast";
+import { getRootType } from "./helpers";
+import { type FragmentDefinitionMap, selectionFields } from "./selection";
+import { findImplementors } from "./utils";
+
+/**
+ * Get the merged fields of a selection set for a concrete type.
+ */
+export type SelectFields = (
+  selections: ReadonlyArray<SelectionNode>,
+  type: GraphQLObjectType,
+) => FieldNode[];
+
+/**
+ * The parts of a schema that every execution looks up, computed once per
+ * schema.
+ */
+class CompiledSchema {
+  readonly schema: GraphQLSchema;
+  readonly unionMap: Record<string, GraphQLUnionType>;
+
+  readonly #concreteTypes = new Map<string, readonly GraphQLObjectType[]>();
+  readonly #fieldDefs = new Map<
+    GraphQLObjectType,
+    Map<string, GraphQLField<unknown, unknown> | undefined>
+  >();
+  readonly #operations = new WeakMap<
+    DocumentNode,
+    Map<string, CompiledOperation>
+  >();
+
+  constructor(schema: GraphQLSchema) {
+    this.schema = schema;
+    this.unionMap = Object.fromEntries(
+      Object.entries(schema.getTypeMap()).filter(
+        (pair): pair is [string, GraphQLUnionType] =>
+          pair[1] instanceof GraphQLUnionType,
+      ),
+    );
+  }
+
+  /**
+   * The object types that a value of the type may have.
+   */
+  public concreteTypes(
+    type: GraphQLCompositeType,
+  ): readonly GraphQLObjectType[] {
+    let types = this.#concreteTypes.get(type.name);
+    if (!types) {
+      types =
+        type instanceof GraphQLInterfaceType
+          ? findImplementors(this.schema, type)
+          : type instanceof GraphQLUnionType
+            ? type.getTypes()
+            : [type];
+      this.#concreteTypes.set(type.name, types);
+    }
+
+    return types;
+  }
+
+  public fieldDef(
+    type: GraphQLObjectType,
+    fieldNode: FieldNode,
+  ): GraphQLField<unknown, unknown> | undefined {
+    let fields = this.#fieldDefs.get(type);
+    if (!fields) {
+      fields = new Map();
+      this.#fieldDefs.set(type, fields);
+    }
+
+    const fieldName = fieldNode.name.value;
+    if (!fields.has(fieldName)) {
+      fields.set(
+        fieldName,
+        getFieldDef(this.schema, type, fieldNode) ?? undefined,
+      );
+    }
+
+    return fields.get(fieldName);
+  }
+
+  public operation(
+    document: DocumentNode,
+    operationName: string | undefined,
+  ): CompiledOperation {
+    let operations = this.#operations.get(document);
+    if (!operations) {
+      operations = new Map();
+      this.#operations.set(document, operations);
+    }
+
+    // documents with a single operation can be executed with or without its
+    // name, which are cached separately
+    const key = operationName ?? "";
+    let operation = operations.get(key);
+    if (!operation) {
+      operation = new CompiledOperation(this, document, operationName);
+      operations.set(key, operation);
+    }
+
+    return operation;
+  }
+}
+
+/**
+ * An operation of a document with the merged fields of its selection sets,
+ * which are computed once per concrete type and reused by every execution of
+ * the operation.
+ */
+export class CompiledOperation {
+  readonly #schema: CompiledSchema;
+  readonly operation: OperationDefinitionNode;
+  readonly fragmentMap: FragmentDefinitionMap;
+  readonly rootType: GraphQLObjectType | null | undefined;
+
+  /**
+   * The variables used by `@skip` and `@include`, whose values change the
+   * selected fields.
+   */
+  readonly #conditionVariables: string[];
+
+  readonly #selectFields = new Map<string, SelectFields>();
+
+  constructor(
+    schema: CompiledSchema,
+    document: DocumentNode,
+    operationName: string | undefined,
+  ) {
+    const [operation, fragments] = extractOperationAndFragments(
+      document,
+      operationName,
+    );
+
+    this.#schema = schema;
+    this.operation = operation;
+    this.fragmentMap = Object.fromEntries(
+      fragments.map((fragment) => [fragment.name.value, fragment]),
+    );
+    this.rootType = getRootType(schema.schema, operation);
+
+    const conditionVariables = new Set<string>();
+    visit(document, {
+      Directive(node) {
+        if (
+          node.name.value !== GraphQLSkipDirective.name &&
+          node.name.value !== GraphQLIncludeDirective.name
+        ) {
+          return;
+        }
+
+        for (const arg of node.arguments ?? []) {
+          if (arg.value.kind === Kind.VARIABLE) {
+            conditionVariables.add(arg.value.name.value);
+          }
+        }
+      },
+    });
+    this.#conditionVariables = Array.from(conditionVariables);
+  }
+
+  get unionMap(): Record<string, GraphQLUnionType> {
+    return this.#schema.unionMap;
+  }
+
+  public concreteTypes(
+    type: GraphQLCompositeType,
+  ): readonly GraphQLObjectType[] {
+    return this.#schema.concreteTypes(type);
+  }
+
+  public fieldDef(
+    type: GraphQLObjectType,
+    fieldNode: FieldNode,
+  ): GraphQLField<unknown, unknown> | undefined {
+    return this.#schema.fieldDef(type, fieldNode);
+  }
+
+  /**
+   * Get a function that selects the merged fields of a selection set with
+   * the given variable values. The fields are shared by all the executions
+   * whose `@skip` and `@include` conditions evaluate the same way, so they
+   * must not be modified.
+   */
+  public selectFields(variableValues: Record<string, unknown>): SelectFields {
+    const conditionValues = Object.fromEntries(
+      this.#conditionVariables.map((name) => [name, variableValues[name]]),
+    );
+    const key = JSON.stringify(
+      this.#conditionVariables.map((name) => conditionValues[name] ?? null),
+    );
+
+    let selectFields = this.#selectFields.get(key);
+    if (!selectFields) {
+      const cache = new WeakMap<
+        ReadonlyArray<SelectionNode>,
+        Map<GraphQLObjectType, FieldNode[]>
+      >();
+      selectFields = (selections, type) => {
+        if (!selections.length) {
+          return [];
+        }
+
+        let fieldsByType = cache.get(selections);
+        if (!fieldsByType) {
+          fieldsByType = new Map();
+          cache.set(selections, fieldsByType);
+        }
+
+        let fields = fieldsByType.get(type);
+        if (!fields) {
+          fields = selectionFields(
+            this.#schema.schema,
+            this.fragmentMap,
+            this.#schema.unionMap,
+            selections,
+            type,
+            conditionValues,
+          );
+          fieldsByType.set(type, fields);
+        }
+
+        return fields;
+      };
+      this.#selectFields.set(key, selectFields);
+    }
+
+    return selectFields;
+  }
+}
+
+const compiledSchemas = new WeakMap<GraphQLSchema, CompiledSchema>();
+
+/**
+ * Get the compiled operation of a document, which is cached per schema,
+ * document and operation name.
+ */
+export function compileOperation(
+  schema: GraphQLSchema,
+  document: DocumentNode,
+  operationName?: string,
+): CompiledOperation {
+  let compiled = compiledSchemas.get(schema);
+  if (!compiled) {
+    compiled = new CompiledSchema(schema);
+    compiledSchemas.set(schema, compiled);
+  }
+
+  return compiled.operation(document, operationName);
+}
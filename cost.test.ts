@@ -0,0 +1,126 @@
+import { describe, expect, test } from "@jest/globals";
+import { Client } from "fauna";
+import {
+  type GraphQLFieldConfig,
+  GraphQLInt,
+  GraphQLObjectType,
+  GraphQLSchema,
+  buildSchema,
+  parse,
+} from "graphql";
+import createExecutorBackend from "./backends/faunadbV10";
+import { createExecuteFn, estimateCost } from "./executor";
+
+const client = new Client({
+  endpoint: new URL("http://localhost:8443"),
+  secret: "secret",
+
+  // NOTE: this stops jest from complaining about
+  //       not exiting "one second after the test run has completed".
+  http2_session_idle_ms: 100,
+});
+
+function makeSchema(fields: Record<string, GraphQLFieldConfig<any, any, any>>) {
+  return new GraphQLSchema({
+    query: new GraphQLObjectType({
+      name: "Query",
+      fields,
+    }),
+  });
+}
+
+describe("cost analysis", () => {
+  const schema = buildSchema(`
+    directive @stagedCost(
+      resolvesDeferred: Boolean = false
+      awaitsDeferred: Boolean = false
+      querySize: Int
+    ) on FIELD_DEFINITION
+
+    type Node {
+      id: String
+      heavy: String @stagedCost(querySize: 10)
+      next: Node @stagedCost(awaitsDeferred: true, resolvesDeferred: true)
+      upper: String @stagedCost(awaitsDeferred: true)
+    }
+
+    type Query {
+      literal: Int
+      node: Node @stagedCost(resolvesDeferred: true)
+      nodes: [Node] @stagedCost(resolvesDeferred: true)
+    }
+  `);
+
+  test.each([
+    ["{ literal }", { stages: 1, querySize: 0 }],
+    ["{ node { id heavy } }", { stages: 1, querySize: 12 }],
+    ["{ node { id upper } }", { stages: 2, querySize: 2 }],
+    ["{ node { next { next { id } } } }", { stages: 3, querySize: 4 }],
+    [
+      "{ nodes { ...F } node { next { id } } } fragment F on Node { id }",
+      { stages: 2, querySize: 5 },
+    ],
+    [
+      "query ($skip: Boolean!) { node { next @skip(if: $skip) { id } } }",
+      { stages: 1, querySize: 1 },
+    ],
+  ])("%s", (query, expected) => {
+    expect(
+      estimateCost({
+        schema,
+        document: parse(query),
+        variableValues: { skip: true },
+      }),
+    ).toStrictEqual(expected);
+  });
+
+  test("field extensions", () => {
+    expect(
+      estimateCost({
+        schema: makeSchema({
+          deferred: {
+            type: GraphQLInt,
+            extensions: { stagedCost: { resolvesDeferred: true } },
+          },
+        }),
+        document: parse("{ deferred }"),
+      }),
+    ).toStrictEqual({ stages: 1, querySize: 1 });
+  });
+
+  test("rejects operations over budget", async () => {
+    let called = false;
+    const executeFn = createExecuteFn(createExecutorBackend(client), {
+      costLimits: { maxStages: 2 },
+    });
+
+    expect(
+      JSON.parse(
+        JSON.stringify(
+          await executeFn({
+            schema,
+            document: parse("{ node { next { next { id } } } }"),
+            rootValue: {
+              node: () => {
+                called = true;
+                return null;
+              },
+            },
+          }),
+        ),
+      ),
+    ).toStrictEqual({
+      errors: [
+        {
+          message:
+            "Operation is estimated to need 3 stages, which exceeds the limit of 2.",
+          extensions: {
+            code: "LIMIT_EXCEEDED",
+            cost: { stages: 3, querySize: 4 },
+          },
+        },
+      ],
+    });
+    expect(called).toBe(false);
+  });
+});
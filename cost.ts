@@ -0,0 +1,239 @@
+import {
+  DirectiveLocation,
+  type ExecutionArgs,
+  type FieldNode,
+  GraphQLBoolean,
+  type GraphQLCompositeType,
+  GraphQLDirective,
+  GraphQLError,
+  type GraphQLField,
+  GraphQLInt,
+  type GraphQLSchema,
+  type SelectionNode,
+  getDirectiveValues,
+  getNamedType,
+  isAbstractType,
+  isCompositeType,
+} from "graphql";
+import { coerceVariableValues } from "./arguments";
+import {
+  type CompiledOperation,
+  type SelectFields,
+  compileOperation,
+} from "./compiled";
+import { ErrorCode } from "./errors";
+
+export const GraphQLStagedCostDirective = new GraphQLDirective({
+  name: "stagedCost",
+  description:
+    "Describes how a field affects the stages and the backend queries of the multistage executor.",
+  locations: [DirectiveLocation.FIELD_DEFINITION],
+  args: {
+    resolvesDeferred: { type: GraphQLBoolean, defaultValue: false },
+    awaitsDeferred: { type: GraphQLBoolean, defaultValue: false },
+    querySize: { type: GraphQLInt },
+  },
+});
+
+/**
+ * The cost annotation of a field, given either with the `@stagedCost`
+ * directive in the SDL or with the `stagedCost` field extension.
+ */
+export interface StagedCost {
+  /**
+   * The resolver returns a deferred value, which is sent to the backend.
+   */
+  resolvesDeferred?: boolean;
+
+  /**
+   * The resolver awaits its deferred source value, which restages the field
+   * after the source value is resolved.
+   */
+  awaitsDeferred?: boolean;
+
+  /**
+   * The size that the field adds to the backend query, defaults to 1.
+   */
+  querySize?: number;
+}
+
+export interface CostEstimate {
+  stages: number;
+  querySize: number;
+}
+
+export interface CostLimits {
+  maxStages?: number;
+  maxQuerySize?: number;
+}
+
+function getStagedCost(field: GraphQLField<unknown, unknown>): StagedCost {
+  const extension = field.extensions?.stagedCost as StagedCost | undefined;
+  if (extension) {
+    return extension;
+  }
+
+  if (field.astNode) {
+    return (
+      (getDirectiveValues(GraphQLStagedCostDirective, field.astNode) as
+        | StagedCost
+        | undefined) ?? {}
+    );
+  }
+
+  return {};
+}
+
+function maxEstimate(estimates: CostEstimate[]): CostEstimate {
+  return {
+    stages: Math.max(0, ...estimates.map((estimate) => estimate.stages)),
+    querySize: Math.max(0, ...estimates.map((estimate) => estimate.querySize)),
+  };
+}
+
+class CostAnalyzer {
+  readonly #schema: GraphQLSchema;
+  readonly #compiled: CompiledOperation;
+  readonly #selectFields: SelectFields;
+
+  constructor(
+    schema: GraphQLSchema,
+    compiled: CompiledOperation,
+    variableValues: Record<string, unknown>,
+  ) {
+    this.#schema = schema;
+    this.#compiled = compiled;
+    this.#selectFields = compiled.selectFields(variableValues);
+  }
+
+  /**
+   * Estimate the stages that are needed to resolve the selections and the
+   * total size of the backend queries that they generate.
+   *
+   * @param stage the stage in which the selections are resolved
+   * @param deferred whether the source value is deferred, in which case the
+   * selected fields are expanded into the source value's query
+   */
+  public estimate(
+    type: GraphQLCompositeType,
+    selections: ReadonlyArray<SelectionNode>,
+    stage: number,
+    deferred: boolean,
+  ): CostEstimate {
+    if (isAbstractType(type)) {
+      // only one of the possible types is selected at a time
+      return maxEstimate(
+        this.#schema
+          .getPossibleTypes(type)
+          .map((possibleType) =>
+            this.estimate(possibleType, selections, stage, deferred),
+          ),
+      );
+    }
+
+    const fieldNodes = new Map<string, FieldNode[]>();
+    for (const fieldNode of this.#selectFields(selections, type)) {
+      const key = (fieldNode.alias ?? fieldNode.name).value;
+      fieldNodes.set(key, [...(fieldNodes.get(key) ?? []), fieldNode]);
+    }
+
+    const result: CostEstimate = { stages: 0, querySize: 0 };
+    for (const nodes of fieldNodes.values()) {
+      const field = this.#compiled.fieldDef(type, nodes[0]);
+      if (!field) {
+        continue;
+      }
+
+      const cost = getStagedCost(field);
+
+      let fieldStage = stage;
+      let fieldDeferred = deferred;
+      if (deferred && cost.awaitsDeferred) {
+        // the field is restaged once its source value is resolved
+        fieldStage++;
+        fieldDeferred = false;
+      }
+
+      if (cost.resolvesDeferred || fieldDeferred) {
+        result.querySize += cost.querySize ?? 1;
+      }
+
+      if (cost.resolvesDeferred) {
+        fieldDeferred = true;
+      }
+
+      result.stages = Math.max(result.stages, fieldStage + 1);
+
+      const fieldType = getNamedType(field.type);
+      if (!isCompositeType(fieldType)) {
+        continue;
+      }
+
+      const child = this.estimate(
+        fieldType,
+        nodes.flatMap((node) => node.selectionSet?.selections ?? []),
+        fieldStage,
+        fieldDeferred,
+      );
+      result.stages = Math.max(result.stages, child.stages);
+      result.querySize += child.querySize;
+    }
+
+    return result;
+  }
+}
+
+/**
+ * Estimate the number of stages and the size of the backend queries of an
+ * operation from the `@stagedCost` annotations of the selected fields,
+ * without running any resolvers.
+ */
+export function estimateCost(args: ExecutionArgs): CostEstimate {
+  const compiled = compileOperation(
+    args.schema,
+    args.document,
+    args.operationName ?? undefined,
+  );
+  const { operation, rootType } = compiled;
+  if (!rootType) {
+    throw new GraphQLError(`missing ${operation.operation} type`);
+  }
+
+  return new CostAnalyzer(
+    args.schema,
+    compiled,
+    coerceVariableValues(
+      args.schema,
+      operation.variableDefinitions,
+      args.variableValues,
+    ),
+  ).estimate(rootType, operation.selectionSet.selections, 0, false);
+}
+
+/**
+ * Throw if the estimated cost of the operation is over any of the limits.
+ */
+export function assertCostWithinLimits(
+  args: ExecutionArgs,
+  limits: CostLimits,
+): CostEstimate {
+  const estimate = estimateCost(args);
+  if (limits.maxStages !== undefined && estimate.stages > limits.maxStages) {
+    throw new GraphQLError(
+      `Operation is estimated to need ${estimate.stages} stages, which exceeds the limit of ${limits.maxStages}.`,
+      { extensions: { code: ErrorCode.LIMIT_EXCEEDED, cost: estimate } },
+    );
+  }
+
+  if (
+    limits.maxQuerySize !== undefined &&
+    estimate.querySize > limits.maxQuerySize
+  ) {
+    throw new GraphQLError(
+      `Operation is estimated to generate backend queries of size ${estimate.querySize}, which exceeds the limit of ${limits.maxQuerySize}.`,
+      { extensions: { code: ErrorCode.LIMIT_EXCEEDED, cost: estimate } },
+    );
+  }
+
+  return estimate;
+}
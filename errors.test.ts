@@ -0,0 +1,108 @@
+import { describe, expect, test } from "@jest/globals";
+import { Client, ServiceError } from "fauna";
+import {
+  GraphQLError,
+  type GraphQLFieldConfig,
+  GraphQLInt,
+  GraphQLObjectType,
+  GraphQLSchema,
+  parse,
+} from "graphql";
+import createExecutorBackend, { fql } from "./backends/faunadbV10";
+import { createErrorFormatter, createExecuteFn } from "./executor";
+
+const client = new Client({
+  endpoint: new URL("http://localhost:8443"),
+  secret: "secret",
+
+  // NOTE: this stops jest from complaining about
+  //       not exiting "one second after the test run has completed".
+  http2_session_idle_ms: 100,
+});
+
+function makeSchema(fields: Record<string, GraphQLFieldConfig<any, any, any>>) {
+  return new GraphQLSchema({
+    query: new GraphQLObjectType({
+      name: "Query",
+      fields,
+    }),
+  });
+}
+
+describe("error formatting", () => {
+  const schema = makeSchema({
+    internal: {
+      type: GraphQLInt,
+      resolve: () => {
+        throw new Error("secret connection string");
+      },
+    },
+    public: {
+      type: GraphQLInt,
+      resolve: () => {
+        throw new GraphQLError("Not allowed.", {
+          extensions: { code: "FORBIDDEN" },
+        });
+      },
+    },
+    backend: {
+      type: GraphQLInt,
+      resolve: () => fql`abort(0)`,
+    },
+    input: { type: GraphQLInt, args: { x: { type: GraphQLInt } } },
+  });
+
+  function execute(mask: boolean, query: string) {
+    return createExecuteFn(
+      createExecutorBackend(client, {
+        queryMiddleware: () => async () => {
+          throw new ServiceError(
+            {
+              error: { code: "abort", message: "aborted" },
+              summary: "error: abort",
+            } as any,
+            400,
+          );
+        },
+      }),
+      { errorFormatter: createErrorFormatter({ mask }) },
+    )({ schema, document: parse(query) });
+  }
+
+  test("codes", async () => {
+    const result = await execute(false, '{ internal public input(x: "y") }');
+    expect(
+      result.errors?.map(({ message, extensions }) => [message, extensions]),
+    ).toStrictEqual([
+      ["secret connection string", { code: "INTERNAL_SERVER_ERROR" }],
+      ["Not allowed.", { code: "FORBIDDEN" }],
+      [
+        'Argument "x" has invalid value; Int cannot represent non-integer value: "y"',
+        { code: "BAD_USER_INPUT" },
+      ],
+    ]);
+    expect(result.errors?.[0].originalError?.message).toBe(
+      "secret connection string",
+    );
+  });
+
+  test("masking", async () => {
+    const result = await execute(true, "{ internal public }");
+    expect(
+      result.errors?.map(({ message, extensions }) => [message, extensions]),
+    ).toStrictEqual([
+      ["Unexpected error.", { code: "INTERNAL_SERVER_ERROR" }],
+      ["Not allowed.", { code: "FORBIDDEN" }],
+    ]);
+    expect(result.errors?.[0].originalError?.message).toBe(
+      "secret connection string",
+    );
+  });
+
+  test("masking backend errors", async () => {
+    const result = await execute(true, "{ backend }");
+    expect(
+      result.errors?.map(({ message, extensions }) => [message, extensions]),
+    ).toStrictEqual([["Unexpected error.", { code: "BACKEND_ERROR" }]]);
+  });
+});
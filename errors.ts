@@ -0,0 +1,109 @@
+import { type ExecutionArgs, GraphQLError } from "graphql";
+
+/**
+ * The stable codes given in `extensions.code` of the errors produced by the
+ * executor.
+ */
+export const ErrorCode = {
+  /**
+   * The variables or arguments of the operation are invalid.
+   */
+  BAD_USER_INPUT: "BAD_USER_INPUT",
+
+  /**
+   * The document is not valid against the schema.
+   */
+  GRAPHQL_VALIDATION_FAILED: "GRAPHQL_VALIDATION_FAILED",
+
+  /**
+   * The operation to execute could not be determined from the document.
+   */
+  OPERATION_RESOLUTION_FAILURE: "OPERATION_RESOLUTION_FAILURE",
+
+  /**
+   * The execution was aborted or its deadline passed.
+   */
+  EXECUTION_ABORTED: "EXECUTION_ABORTED",
+
+  /**
+   * The execution went over one of its limits or its estimated cost is over
+   * the cost limits.
+   */
+  LIMIT_EXCEEDED: "LIMIT_EXCEEDED",
+
+  /**
+   * The backend failed to evaluate the deferred values.
+   */
+  BACKEND_ERROR: "BACKEND_ERROR",
+
+  /**
+   * Any other error, including errors thrown by resolvers without a code.
+   */
+  INTERNAL_SERVER_ERROR: "INTERNAL_SERVER_ERROR",
+} as const;
+
+export type ErrorCode = (typeof ErrorCode)[keyof typeof ErrorCode];
+
+const maskedCodes: ReadonlyArray<string> = [
+  ErrorCode.BACKEND_ERROR,
+  ErrorCode.INTERNAL_SERVER_ERROR,
+];
+
+export type ErrorFormatter = (
+  error: GraphQLError,
+  args: ExecutionArgs,
+) => GraphQLError;
+
+export interface ErrorFormatterOptions {
+  /**
+   * Replace the messages of internal and backend errors, e.g. in production.
+   */
+  mask?: boolean;
+
+  /**
+   * The message of masked errors.
+   */
+  maskedMessage?: string;
+}
+
+/**
+ * Get the code of an error, falling back to the code of the error that it
+ * wraps, e.g. a `GraphQLError` thrown by a resolver.
+ */
+export function getErrorCode(error: GraphQLError): string {
+  const code =
+    error.extensions?.code ??
+    (error.originalError as GraphQLError | undefined)?.extensions?.code;
+
+  return typeof code === "string" ? code : ErrorCode.INTERNAL_SERVER_ERROR;
+}
+
+/**
+ * Create an error formatter that gives every error a stable
+ * `extensions.code` and optionally masks the messages of internal errors.
+ * The original error remains available as `originalError` for server logs.
+ */
+export function createErrorFormatter({
+  mask = false,
+  maskedMessage = "Unexpected error.",
+}: ErrorFormatterOptions = {}): ErrorFormatter {
+  return (error) => {
+    const code = getErrorCode(error);
+    const masked = mask && maskedCodes.includes(code);
+
+    return new GraphQLError(masked ? maskedMessage : error.message, {
+      nodes: error.nodes,
+      source: error.source,
+      positions: error.positions,
+      path: error.path,
+      originalError: error.originalError ?? error,
+      extensions: masked
+        ? { code }
+        : {
+            ...(error.originalError as GraphQLError | undefined)?.extensions,
+            ...error.extensions,
+            code,
+          },
+    });
+  };
+}
@@ -1,12 +1,31 @@
 import {
+  type ExecutionArgs,
+  type ExecutionResult,
+  type FieldNode,
+  type GraphQLAbstractType,
+  type GraphQLCompositeType,
   GraphQLError,
-  GraphQLInterfaceType,
+  type GraphQLField,
+  type GraphQLFieldResolver,
+  type GraphQLInterfaceType,
+  type GraphQLLeafType,
   GraphQLList,
   GraphQLNonNull,
   GraphQLObjectType,
-  GraphQLUnionType,
+  type GraphQLOutputType,
+  type GraphQLResolveInfo,
+  type GraphQLSchema,
+  type GraphQLTypeResolver,
+  type GraphQLUnionType,
+  type InlineFragmentNode,
+  Kind,
+  type OperationDefinitionNode,
+  OperationTypeNode,
+  type SelectionNode,
+  type SelectionSetNode,
   defaultFieldResolver,
   defaultTypeResolver,
+  getDirectiveValues,
   getNamedType,
   getNullableType,
   isAbstractType,
@@ -16,35 +35,81 @@ import {
   isListType,
   isNonNullType,
   isObjectType,
-  type ExecutionArgs,
-  type ExecutionResult,
-  type FieldNode,
-  type FragmentDefinitionNode,
-  type GraphQLAbstractType,
-  type GraphQLField,
-  type GraphQLFieldResolver,
-  type GraphQLLeafType,
-  type GraphQLOutputType,
-  type GraphQLResolveInfo,
-  type GraphQLSchema,
-  type GraphQLTypeResolver,
-  type OperationDefinitionNode,
-  type SelectionNode,
 } from "graphql";
-import { getFieldDef } from "graphql/execution/execute";
 import { type Path, addPath, pathToArray } from "graphql/jsutils/Path";
-import { resolveArguments } from "./arguments";
-import { extractOperationAndFragments } from "./ast";
-import { getRootType } from "./helpers";
-import { selectionFields } from "./selection";
+import { coerceVariableValues, resolveArguments } from "./arguments";
+import {
+  type CompiledOperation,
+  type SelectFields,
+  compileOperation,
+} from "./compiled";
+import { type CostLimits, assertCostWithinLimits } from "./cost";
+import { ErrorCode, type ErrorFormatter } from "./errors";
+import {
+  GraphQLStreamDirective,
+  type IncrementalExecutionResults,
+  type IncrementalPhase,
+  type IncrementalStreamResult,
+  executeIncrementally,
+} from "./incremental";
+import { ExecutionSpans, type InstrumentationOptions } from "./instrumentation";
+import { ExecutionTracing, type StagePhase } from "./tracing";
 import {
   type Middleware,
-  findImplementors,
   flattenMiddleware,
+  isAsyncIterable,
   isNullValue,
+  isPathPrefix,
+  mapAsyncIterable,
   selectFromObject,
+  withDeadline,
   zip,
 } from "./utils";
+import { type ValidationOptions, assertValidDocument } from "./validation";
+
+export {
+  GraphQLStagedCostDirective,
+  type CostEstimate,
+  type CostLimits,
+  type StagedCost,
+  assertCostWithinLimits,
+  estimateCost,
+} from "./cost";
+export {
+  ErrorCode,
+  type ErrorFormatter,
+  type ErrorFormatterOptions,
+  createErrorFormatter,
+  getErrorCode,
+} from "./errors";
+export {
+  GraphQLDeferDirective,
+  GraphQLStreamDirective,
+  type IncrementalDeferResult,
+  type IncrementalExecutionResults,
+  type IncrementalResult,
+  type IncrementalStreamResult,
+  type InitialIncrementalExecutionResult,
+  type SubsequentIncrementalExecutionResult,
+} from "./incremental";
+export type {
+  InstrumentationOptions,
+  OpenTelemetrySpan,
+  OpenTelemetryTracer,
+  SpanAttributeValue,
+  SpanAttributes,
+} from "./instrumentation";
+export {
+  type ValidationOptions,
+  validateDocument,
+} from "./validation";
+export type {
+  BackendCallTrace,
+  ResolverTrace,
+  StagePhase,
+  StagePhaseTrace,
+  TracingExtension,
+} from "./tracing";
 
 export type WrappedValue<T> = PromiseLike<T> &
   (Exclude<T, null | undefined> extends Array<infer E>
@@ -107,6 +172,41 @@ function arrayToPath(arr: Array<string | number>): Path | undefined {
   return path;
 }
 
+export interface ResolveDeferredValuesOptions {
+  /**
+   * Aborted when the execution is cancelled or its deadline passes, backends
+   * may use it to cancel in-flight queries.
+   */
+  signal?: AbortSignal;
+
+  /**
+   * The execution's deadline in milliseconds since the epoch.
+   */
+  deadline?: number;
+
+  /**
+   * The same object for every call of an execution. Backends may key their
+   * per-execution state on it, since callers may reuse the execution
+   * arguments for several executions.
+   */
+  execution?: object;
+}
+
+/**
+ * An error that a backend found in a resolved value, e.g. the `@error`
+ * sentinel of the Fauna backends.
+ */
+export interface BackendError {
+  message: string;
+  code?: string;
+  extensions?: Record<string, unknown>;
+
+  /**
+   * The path of the error relative to the field whose value it was found in.
+   */
+  path?: ReadonlyArray<string | number>;
+}
+
 export interface ExecutorBackend<TDeferred> {
   unwrapResolvedValue: (value: WrappedValue<any>) => unknown;
   isWrappedValue: (value: unknown) => value is WrappedValue<any>;
@@ -118,6 +218,7 @@ export interface ExecutorBackend<TDeferred> {
   resolveDeferredValues(
     values: Array<[TDeferred, Path]>,
     executionArgs: ExecutionArgs,
+    options?: ResolveDeferredValuesOptions,
   ): Promise<unknown[]>;
   expandChildren(
     path: Path,
@@ -128,6 +229,46 @@ export interface ExecutorBackend<TDeferred> {
     args: ExecutionArgs,
   ): Iterable<ExpandedChild>;
   getErrorMessage?: (value: unknown) => string | null;
+
+  /**
+   * Get the error that a resolved value stands for, if any. Takes precedence
+   * over `getErrorMessage`.
+   */
+  getError?: (value: unknown) => BackendError | null;
+
+  /**
+   * Whether an error of `resolveDeferredValues` was caused by the deferred
+   * values themselves, so that resolving fewer of them may succeed. Failed
+   * batches are only bisected for such errors, e.g. not for network or
+   * authentication errors. Without it, every error is assumed to be.
+   */
+  isQueryError?(error: unknown): boolean;
+
+  /**
+   * Build the query that `resolveDeferredValues` would send for the values,
+   * without sending it. Used by the explain mode.
+   */
+  explainDeferredValues?(
+    values: Array<[TDeferred, Path]>,
+    executionArgs: ExecutionArgs,
+  ): unknown;
+
+  /**
+   * Whether the deferred values given to a single `resolveDeferredValues` call
+   * are evaluated in order within one transaction. When set, consecutive
+   * mutation root fields that don't need restaging share one backend call.
+   */
+  batchSerialMutations?: boolean;
+
+  /**
+   * Get the entries that the backend adds to the `extensions` of the result,
+   * e.g. the totals of its query stats. Called once the execution is done,
+   * with the `execution` given to `resolveDeferredValues`.
+   */
+  getResultExtensions?(
+    executionArgs: ExecutionArgs,
+    execution: object,
+  ): Record<string, unknown> | undefined;
 }
 
 type SerializeFunction = (value: any, contextValue: any) => unknown;
@@ -153,6 +294,14 @@ interface FieldToResolve {
   parentPath?: Path;
 }
 
+function fieldPath(field: Omit<FieldToResolve, "sourceValue">): Path {
+  return addPath(
+    field.parentPath,
+    fieldNodeKey(field.fieldNodes[field.fieldNodeIndex]),
+    undefined,
+  );
+}
+
 const nextStage = Symbol();
 
 export type FieldResolverGetter<TSource, TContext> = {
@@ -255,29 +404,314 @@ interface Hooks<TSource, TContext, TDeferred> {
   resolveDeferredValuesMiddleware: ResolveDeferredValuesMiddleware<TDeferred>;
 }
 
+export interface StageStartEvent {
+  stage: number;
+
+  /**
+   * The paths of the fields that are resolved in this stage.
+   */
+  paths: Array<ReadonlyArray<string | number>>;
+  args: ExecutionArgs;
+}
+
+export interface StageEndEvent {
+  stage: number;
+
+  /**
+   * The number of deferred values that were sent to the backend.
+   */
+  deferredValueCount: number;
+  args: ExecutionArgs;
+}
+
+export interface RestageEvent {
+  stage: number;
+
+  /**
+   * The paths of the fields that will be resolved again in the next stage.
+   */
+  paths: Array<ReadonlyArray<string | number>>;
+  args: ExecutionArgs;
+}
+
+export interface ValidateEvent {
+  /**
+   * The data as it was collected from the stages, before it is completed and
+   * validated against the schema.
+   */
+  data: Record<string, unknown>;
+  errors: ReadonlyArray<GraphQLError>;
+  args: ExecutionArgs;
+}
+
+export interface ResultEvent {
+  /**
+   * The result that is about to be returned. It may be changed in place, e.g.
+   * to add `extensions`, or replaced entirely with `setResult`.
+   */
+  result: ExecutionResult;
+  setResult: (result: ExecutionResult) => void;
+  args: ExecutionArgs;
+}
+
+type LifecycleHook<E> = (event: E) => void | Promise<void>;
+
+export interface LifecycleHooks {
+  onExecuteStart?: MaybeArray<LifecycleHook<ExecutionArgs>>;
+  onStageStart?: MaybeArray<LifecycleHook<StageStartEvent>>;
+  onStageEnd?: MaybeArray<LifecycleHook<StageEndEvent>>;
+  onRestage?: MaybeArray<LifecycleHook<RestageEvent>>;
+  onValidate?: MaybeArray<LifecycleHook<ValidateEvent>>;
+
+  onResult?: MaybeArray<LifecycleHook<ResultEvent>>;
+}
+
+function toArray<T>(value: MaybeArray<T> | undefined): T[] {
+  return Array.isArray(value) ? value : value ? [value] : [];
+}
+
+async function emit<E>(
+  handlers: MaybeArray<LifecycleHook<E>> | undefined,
+  event: E,
+): Promise<void> {
+  for (const handler of toArray(handlers)) {
+    await handler(event);
+  }
+}
+
+export interface CancellationArgs {
+  /**
+   * No new stages are started once this signal is aborted.
+   */
+  signal?: AbortSignal;
+
+  /**
+   * No new stages are started after this time, given either as a date or as
+   * milliseconds since the epoch.
+   */
+  deadline?: Date | number;
+}
+
+/**
+ * Limits that protect against runaway restaging. The fields that can't be
+ * resolved within the limits are reported as errors at their paths.
+ */
+export interface ExecutionLimits {
+  maxStages?: number;
+  maxDeferredValuesPerStage?: number;
+  maxBackendCalls?: number;
+}
+
+export interface ExplainArgs {
+  /**
+   * Mocked results of the backend calls, indexed by stage. Stages without a
+   * mocked result resolve every deferred value to null, so restaged fields
+   * that depend on them are not planned any further.
+   */
+  stageResults?: Array<unknown[] | undefined>;
+}
+
+export interface ExplainedRestage {
+  path: ReadonlyArray<string | number>;
+  field: string;
+  reason: string;
+}
+
+export interface ExplainedStage {
+  /**
+   * The query that the backend would have sent for this stage.
+   */
+  query: unknown;
+
+  /**
+   * The paths of the deferred values that are resolved by the query.
+   */
+  paths: Array<ReadonlyArray<string | number>>;
+
+  /**
+   * The fields that have to be resolved again once the query's results are
+   * available.
+   */
+  restaged: ExplainedRestage[];
+}
+
+/**
+ * A stage whose deferred values are waiting to be resolved.
+ */
+export interface ExecutionStage<TDeferred> {
+  stage: number;
+
+  /**
+   * The deferred values of the stage with their paths, in the same shape as
+   * they are given to the backend's `resolveDeferredValues`.
+   */
+  values: Array<[TDeferred, Path]>;
+
+  /**
+   * To be given to the backend's `resolveDeferredValues` as
+   * `options.execution`.
+   */
+  execution: object;
+}
+
+/**
+ * A handle to drive an execution one stage at a time, e.g. to resolve some
+ * stages somewhere else or to schedule the backend calls.
+ */
+export interface ExecutionPlan<TDeferred, T = any> {
+  /**
+   * Resolve the fields of the next stage and return its deferred values, or
+   * undefined once the execution is complete.
+   */
+  nextStage(): Promise<ExecutionStage<TDeferred> | undefined>;
+
+  /**
+   * Feed the resolved deferred values of the current stage back in, in the
+   * same order as they were returned by `nextStage`.
+   */
+  submitStageResults(results: unknown[]): Promise<void>;
+
+  getResult(): Promise<ExecutionResult<T>>;
+}
+
 export interface CreateExecuteFnOptions<TSource, TContext, TDeferred>
-  extends Middlewares<TSource, TContext, TDeferred> {}
+  extends Middlewares<TSource, TContext, TDeferred>,
+    LifecycleHooks {
+  /**
+   * Record the timings of resolvers, stages and backend calls in the
+   * `tracing` extension of the result.
+   */
+  tracing?: boolean;
+
+  /**
+   * Create OpenTelemetry spans for the execution, its stages and its backend
+   * calls.
+   */
+  instrumentation?: InstrumentationOptions;
+
+  limits?: ExecutionLimits;
+
+  /**
+   * Validate documents before they are executed, which is skipped by default
+   * since most servers validate documents before executing them. Invalid
+   * documents are rejected with the validation errors before any resolver
+   * runs.
+   */
+  validate?: boolean | ValidationOptions;
+
+  /**
+   * Reject operations whose estimated cost is over the limits before any
+   * resolver runs, see `estimateCost`.
+   */
+  costLimits?: CostLimits;
+
+  /**
+   * Format every error before it is returned, e.g. with
+   * `createErrorFormatter({ mask: true })` in production.
+   */
+  errorFormatter?: ErrorFormatter;
+
+  /**
+   * Whether to retry a failed backend call without the deferred values that
+   * caused the failure, defaults to true. The failed values are either
+   * reported by the backend with the error's path or found by splitting the
+   * call into smaller ones. Otherwise all the fields of the failed call are
+   * nulled out. Batches of mutations and errors that the backend doesn't
+   * attribute to the query, e.g. network errors, are never retried, and
+   * retries count towards `limits.maxBackendCalls`.
+   */
+  bisectFailedBatches?: boolean;
+}
+
+interface ExecutionOptions extends LifecycleHooks {
+  explain?: ExplainArgs;
+  tracing?: boolean;
+  instrumentation?: InstrumentationOptions;
+  limits?: ExecutionLimits;
+  validate?: boolean | ValidationOptions;
+  costLimits?: CostLimits;
+  errorFormatter?: ErrorFormatter;
+  bisectFailedBatches?: boolean;
+
+  /**
+   * Whether the execution is a phase of an incremental execution, which
+   * honors `@stream`. Phased executions resolve the deferred fragments and
+   * the held back items of literal lists in later phases, which continue from
+   * `previousPhase`, while inline ones resolve everything at once.
+   */
+  incremental?: "inline" | "phased";
+  previousPhase?: Execution<any>;
+}
+
+/**
+ * The items of a streamed list that are delivered after the payload that has
+ * the list.
+ */
+interface StreamedItems {
+  items: unknown[];
+  start: number;
+  label: string | undefined;
+  itemType: GraphQLOutputType;
+  fieldNodes: readonly FieldNode[];
+  fieldNodeIndex: number;
+  parentType: GraphQLObjectType;
+  path: Path;
+}
+
+interface PendingStage<TDeferred> {
+  entries: Array<
+    | [value: any, path: Path, parentTypeCheck: string | undefined]
+    | [value: any, path: Path]
+  >;
+  originalIndices: number[];
+  values: Array<[TDeferred, Path]>;
+}
 
 class Execution<TDeferred> {
   readonly #backend: ExecutorBackend<TDeferred>;
-  readonly #args: ExecutionArgs;
+  readonly #args: ExecutionArgs & CancellationArgs;
 
+  readonly #compiled: CompiledOperation;
   readonly #operation: OperationDefinitionNode;
-  readonly #fragmentMap: Record<string, FragmentDefinitionNode>;
   readonly #rootType: GraphQLObjectType<any, any>;
-  readonly #unionMap: Record<string, GraphQLUnionType>;
+  readonly #variableValues: Record<string, unknown>;
+  readonly #selectFields: SelectFields;
 
   #step1_resolve: Array<FieldToResolve> = [];
-  #step2_evaluate: Array<
-    | [value: any, path: Path, parentTypeCheck: string | undefined]
-    | [value: any, path: Path]
-  > = [];
+  #step2_evaluate: PendingStage<TDeferred>["entries"] = [];
   #step3_restage: Array<Omit<FieldToResolve, "sourceValue">> = [];
+  #pendingRootFields: FieldToResolve[] = [];
+  #pendingStage: PendingStage<TDeferred> | undefined;
 
   readonly #unvalidatedResult: Record<string, any> = {};
+  readonly #token: object;
 
   #resultErrors: GraphQLError[] = [];
 
+  #signal: AbortSignal | undefined;
+  #disposeSignal: () => void = () => {};
+  #started = false;
+
+  readonly #explain: ExplainArgs | undefined;
+  readonly #tracing: ExecutionTracing | undefined;
+  readonly #instrumentation: InstrumentationOptions | undefined;
+  readonly #lifecycleHooks: LifecycleHooks;
+  #spans: ExecutionSpans | undefined;
+  #stage = 0;
+  #backendCallCount = 0;
+  readonly #limits: ExecutionLimits;
+  readonly #bisectFailedBatches: boolean;
+  readonly #explainedStages: ExplainedStage[] = [];
+  #pendingRestages: ExplainedRestage[] = [];
+
+  readonly #incremental: "inline" | "phased" | undefined;
+  // the values of the fields that earlier phases resolved, by path
+  readonly #phaseValues: Map<string, unknown> | undefined;
+  readonly #heldBackStreams: Array<
+    [path: Array<string | number>, start: number]
+  > = [];
+  #streamedItems: StreamedItems[] = [];
+
   #fieldResolverMiddleware: FieldResolverMiddleware<unknown, unknown>;
   #getFieldResolver: FieldResolverGetter<unknown, unknown>;
   #getTypeResolver: TypeResolverGetter<unknown, unknown>;
@@ -288,17 +722,41 @@ class Execution<TDeferred> {
     return this.#args.schema;
   }
 
-  get #variableValues(): Record<string, unknown> {
-    return this.#args.variableValues || {};
-  }
-
   constructor(
     backend: ExecutorBackend<TDeferred>,
-    args: ExecutionArgs,
+    args: ExecutionArgs & CancellationArgs,
     hooks: Hooks<unknown, unknown, TDeferred>,
+    {
+      explain,
+      tracing,
+      instrumentation,
+      limits,
+      bisectFailedBatches = true,
+      incremental,
+      previousPhase,
+      ...lifecycleHooks
+    }: ExecutionOptions = {},
   ) {
     this.#backend = backend;
     this.#args = args;
+    this.#explain = explain;
+    this.#tracing = tracing ? new ExecutionTracing() : undefined;
+    this.#instrumentation = instrumentation;
+    this.#lifecycleHooks = lifecycleHooks;
+    this.#limits = limits ?? {};
+    this.#bisectFailedBatches = bisectFailedBatches;
+
+    this.#token = {};
+    this.#incremental = incremental;
+    this.#phaseValues = incremental === "phased" ? new Map() : undefined;
+    if (previousPhase) {
+      // the phases of an incremental execution count as one execution
+      this.#token = previousPhase.#token;
+      this.#tracing = previousPhase.#tracing;
+      this.#stage = previousPhase.#stage;
+      this.#backendCallCount = previousPhase.#backendCallCount;
+      this.#phaseValues = previousPhase.#phaseValues;
+    }
 
     this.#fieldResolverMiddleware = hooks.fieldResolverMiddleware;
     this.#getFieldResolver = hooks.fieldResolverGetterMiddleware(
@@ -311,177 +769,912 @@ class Execution<TDeferred> {
       defaultSerializerGetter,
     );
     this.#resolveDeferredValues = hooks.resolveDeferredValuesMiddleware(
-      backend.resolveDeferredValues,
+      explain
+        ? async (values, executionArgs) =>
+            this.#explainDeferredValues(values, executionArgs)
+        : backend.resolveDeferredValues,
     );
 
-    const [operation, fragmentNodes] = extractOperationAndFragments(
+    const compiled = compileOperation(
+      args.schema,
       args.document,
+      args.operationName ?? undefined,
     );
+    const { operation, rootType } = compiled;
+    this.#compiled = compiled;
     this.#operation = operation;
-    this.#fragmentMap = Object.fromEntries(
-      (fragmentNodes || []).map((fragment) => [fragment.name.value, fragment]),
+    this.#variableValues = coerceVariableValues(
+      this.#schema,
+      operation.variableDefinitions,
+      args.variableValues,
     );
+    this.#selectFields = compiled.selectFields(this.#variableValues);
 
-    const rootType = getRootType(this.#schema, operation);
     if (!rootType) {
       throw new Error(`missing ${operation.operation} type`);
     }
 
     this.#rootType = rootType;
 
-    this.#unionMap = Object.fromEntries(
-      Object.entries(this.#schema.getTypeMap()).filter(
-        (pair): pair is [string, GraphQLUnionType] =>
-          pair[1] instanceof GraphQLUnionType,
-      ),
+    const rootFields = this.#buildUnresolvedFields(
+      undefined,
+      rootType,
+      args.rootValue,
+      operation.selectionSet.selections,
     );
+    if (operation.operation === OperationTypeNode.MUTATION) {
+      this.#pendingRootFields = rootFields;
+    } else {
+      this.#step1_resolve.push(...rootFields);
+    }
+  }
 
-    this.#step1_resolve.push(
-      ...this.#buildUnresolvedFields(
-        undefined,
-        rootType,
-        args.rootValue,
-        operation.selectionSet.selections,
-      ),
+  /**
+   * Run every stage of the execution, resolving the deferred values of each
+   * stage with the backend.
+   */
+  public async execute(): Promise<void> {
+    try {
+      for (
+        let stage = await this.nextStage();
+        stage;
+        stage = await this.nextStage()
+      ) {
+        const { values } = stage;
+
+        let resolvedValues: unknown[];
+        try {
+          resolvedValues = await this.#tracePhase("evaluate", () =>
+            this.#resolveBatch(values),
+          );
+        } catch (err) {
+          if (!this.#signal?.aborted) {
+            throw err;
+          }
+
+          this.#abortPaths(values.map(([, path]) => path));
+          await this.#finishStage();
+          continue;
+        }
+
+        await this.submitStageResults(resolvedValues);
+      }
+    } catch (err) {
+      this.#fail(err);
+      throw err;
+    }
+  }
+
+  #start(): void {
+    if (this.#started) {
+      return;
+    }
+
+    this.#started = true;
+    const [signal, dispose] = withDeadline(
+      this.#args.signal,
+      this.#args.deadline,
     );
+    this.#signal = signal;
+    this.#disposeSignal = dispose;
+    this.#spans =
+      this.#instrumentation &&
+      new ExecutionSpans(this.#instrumentation, this.#operation);
   }
 
-  public async execute(): Promise<void> {
-    while (this.#step1_resolve.length) {
-      for (const [path, value] of await Promise.all(
-        this.#step1_resolve
-          .splice(0, this.#step1_resolve.length)
-          .map(
-            async (f): Promise<[Path, any]> => [
-              addPath(
-                f.parentPath,
-                fieldNodeKey(f.fieldNodes[f.fieldNodeIndex]),
-                undefined,
-              ),
-              await this.#resolveObjectField(
-                f.sourceValue,
-                f.parentType,
-                f.fieldNodes,
-                f.fieldNodeIndex,
-                f.parentPath,
-              ),
-            ],
+  #fail(err: unknown): void {
+    this.#spans?.end(Array.isArray(err) ? err : [err]);
+    this.#spans = undefined;
+    this.#disposeSignal();
+  }
+
+  /**
+   * Resolve the fields of the next stage and return the deferred values that
+   * they produced. Stages without any deferred values are completed right
+   * away. Returns undefined once there is nothing left to resolve.
+   */
+  public async nextStage(): Promise<ExecutionStage<TDeferred> | undefined> {
+    if (this.#pendingStage) {
+      throw new Error(
+        `The results of stage ${this.#stage} have not been submitted.`,
+      );
+    }
+
+    this.#start();
+    try {
+      const stage = await this.#prepareNextStage();
+      if (!stage) {
+        this.#disposeSignal();
+      }
+
+      return stage;
+    } catch (err) {
+      this.#fail(err);
+      throw err;
+    }
+  }
+
+  async #prepareNextStage(): Promise<ExecutionStage<TDeferred> | undefined> {
+    for (;;) {
+      // mutation root fields must run one after another, including any
+      // restaging that they cause
+      const takesRootField =
+        !this.#step1_resolve.length && !this.#step2_evaluate.length;
+      if (takesRootField) {
+        if (!this.#pendingRootFields.length) {
+          return undefined;
+        }
+
+        this.#step1_resolve.push(this.#pendingRootFields.shift()!);
+      }
+
+      if (this.#signal?.aborted) {
+        this.#abortRemainingFields();
+        return undefined;
+      }
+
+      const { maxStages } = this.#limits;
+      if (maxStages !== undefined && this.#stage >= maxStages) {
+        this.#abortRemainingFields(
+          new GraphQLError(
+            `Execution exceeded the limit of ${maxStages} stages.`,
+            { extensions: { code: ErrorCode.LIMIT_EXCEEDED } },
           ),
-      )) {
-        this.#setCompletedPiece(pathToArray(path), value);
+        );
+        return undefined;
+      }
+
+      this.#spans?.startStage(this.#stage, this.#step1_resolve.length);
+      await emit(this.#lifecycleHooks.onStageStart, {
+        stage: this.#stage,
+        paths: this.#step1_resolve.map((f) => pathToArray(fieldPath(f))),
+        args: this.#args,
+      });
+
+      await this.#resolveFields();
+      if (takesRootField) {
+        await this.#batchNextRootFields();
+      }
+
+      const entries = this.#step2_evaluate;
+      this.#step2_evaluate = [];
+
+      const values: Array<[TDeferred, Path]> = [];
+      const originalIndices: number[] = [];
+      for (const [i, [value, path]] of entries.entries()) {
+        if (this.#isDeferredValue(value)) {
+          originalIndices[values.length] = i;
+          values.push([value, path]);
+        }
+      }
+
+      this.#pendingStage = { entries, originalIndices, values };
+      if (!values.length) {
+        await this.#completeStage([]);
+        continue;
+      }
+
+      // the values of aborted stages are not completed, their paths are
+      // reported as errors instead
+      if (this.#signal?.aborted) {
+        this.#abortPaths(values.map(([, path]) => path));
+        await this.#finishStage();
+        continue;
+      }
+
+      const limitError = this.#checkBackendCallLimits(values.length);
+      if (limitError) {
+        this.#abortPaths(
+          values.map(([, path]) => path),
+          limitError,
+        );
+        await this.#finishStage();
+        continue;
+      }
+
+      this.#backendCallCount++;
+
+      return { stage: this.#stage, values, execution: this.#token };
+    }
+  }
+
+  /**
+   * Resolve the next mutation root fields in the stage of the previous one,
+   * so that they share its backend call, as long as none of them need
+   * restaging.
+   */
+  async #batchNextRootFields(): Promise<void> {
+    while (
+      this.#backend.batchSerialMutations &&
+      this.#pendingRootFields.length &&
+      !this.#step3_restage.length
+    ) {
+      this.#step1_resolve.push(this.#pendingRootFields.shift()!);
+      await this.#resolveFields();
+    }
+  }
+
+  /**
+   * Complete the pending stage with the resolved deferred values, in the same
+   * order as they were returned by `nextStage`.
+   */
+  public async submitStageResults(results: unknown[]): Promise<void> {
+    const values = this.#pendingStage?.values;
+    if (!values) {
+      throw new Error("There is no stage waiting for results.");
+    }
+
+    if (results.length !== values.length) {
+      throw new Error(
+        `Stage ${this.#stage} expected ${values.length} results but got ${results.length}.`,
+      );
+    }
+
+    try {
+      await this.#completeStage(results);
+    } catch (err) {
+      this.#fail(err);
+      throw err;
+    }
+  }
+
+  async #completeStage(results: unknown[]): Promise<void> {
+    const { entries, originalIndices } = this.#pendingStage!;
+    for (const [i, resolvedValue] of zip(originalIndices, results)) {
+      entries[i][0] = resolvedValue;
+    }
+
+    for (const [value, path, parentTypeCheck] of entries) {
+      this.#setCompletedPiece(pathToArray(path), value, parentTypeCheck);
+    }
+
+    await this.#finishStage();
+  }
+
+  async #finishStage(): Promise<void> {
+    const deferredValueCount = this.#pendingStage?.values.length ?? 0;
+    this.#pendingStage = undefined;
+
+    const restageStart = this.#step1_resolve.length;
+    this.#restageFields();
+    if (this.#step1_resolve.length > restageStart) {
+      await emit(this.#lifecycleHooks.onRestage, {
+        stage: this.#stage,
+        paths: this.#step1_resolve
+          .slice(restageStart)
+          .map((f) => pathToArray(fieldPath(f))),
+        args: this.#args,
+      });
+    }
+
+    await emit(this.#lifecycleHooks.onStageEnd, {
+      stage: this.#stage,
+      deferredValueCount,
+      args: this.#args,
+    });
+    this.#spans?.endStage();
+    this.#stage++;
+  }
+
+  async #resolveFields(): Promise<void> {
+    await this.#tracePhase("resolve", () => this.#resolveFieldsPhase());
+  }
+
+  async #resolveFieldsPhase(): Promise<void> {
+    for (const [path, value] of await Promise.all(
+      this.#step1_resolve
+        .splice(0, this.#step1_resolve.length)
+        .map(
+          async (f): Promise<[Path, any]> => [
+            addPath(
+              f.parentPath,
+              fieldNodeKey(f.fieldNodes[f.fieldNodeIndex]),
+              undefined,
+            ),
+            await this.#resolveObjectField(
+              f.sourceValue,
+              f.parentType,
+              f.fieldNodes,
+              f.fieldNodeIndex,
+              f.parentPath,
+            ),
+          ],
+        ),
+    )) {
+      this.#setCompletedPiece(pathToArray(path), value);
+    }
+  }
+
+  /**
+   * Resolve a batch of deferred values. When the backend call fails because
+   * of its query, the values that caused the failure are found so that only
+   * their fields are nulled out. A value is dropped from the retried batch if
+   * the backend reported the path that failed, otherwise the batch is split
+   * in half and retried.
+   */
+  async #resolveBatch(values: Array<[TDeferred, Path]>): Promise<unknown[]> {
+    try {
+      return await this.#callBackend(values);
+    } catch (err) {
+      if (this.#signal?.aborted) {
+        throw err;
+      }
+
+      if (
+        values.length > 1 &&
+        this.#bisectFailedBatches &&
+        // a retry would fail the same way once a limit is exceeded
+        !(
+          err instanceof GraphQLError &&
+          err.extensions.code === ErrorCode.LIMIT_EXCEEDED
+        ) &&
+        // a retried half of a mutation batch would not run in the same
+        // transaction as the other half
+        this.#operation.operation !== OperationTypeNode.MUTATION &&
+        // backends may report the path of the field that failed
+        ((err instanceof GraphQLError && err.path) ||
+          (this.#backend.isQueryError?.(err) ?? true))
+      ) {
+        const errorPath = err instanceof GraphQLError ? err.path : undefined;
+        const failed = values.findIndex(([, path]) =>
+          isPathPrefix(pathToArray(path), errorPath),
+        );
+        if (failed !== -1) {
+          const resolvedValues = await this.#retryBatch(
+            values.filter((_, i) => i !== failed),
+          );
+          this.#reportBatchError(err, [values[failed]]);
+          resolvedValues.splice(failed, 0, null);
+          return resolvedValues;
+        }
+
+        const middle = Math.ceil(values.length / 2);
+        return (
+          await Promise.all([
+            this.#retryBatch(values.slice(0, middle)),
+            this.#retryBatch(values.slice(middle)),
+          ])
+        ).flat();
+      }
+
+      this.#reportBatchError(err, values);
+      return values.map(() => null);
+    }
+  }
+
+  /**
+   * Resolve a part of a failed batch in a new backend call. Once the limit of
+   * backend calls is reached, the values are reported as errors instead.
+   */
+  #retryBatch(values: Array<[TDeferred, Path]>): Promise<unknown[]> {
+    const limitError = this.#checkBackendCallLimits(values.length);
+    if (limitError) {
+      this.#reportBatchError(limitError, values);
+      return Promise.resolve(values.map(() => null));
+    }
+
+    this.#backendCallCount++;
+    return this.#resolveBatch(values);
+  }
+
+  #reportBatchError(err: unknown, values: Array<[TDeferred, Path]>): void {
+    // backends may report the path of the field that failed
+    const errorPath = err instanceof GraphQLError ? err.path : undefined;
+    for (const [, path] of values) {
+      const valuePath = pathToArray(path);
+      this.#resultErrors.push(
+        new GraphQLError((err as any)?.message ?? String(err), {
+          path: isPathPrefix(valuePath, errorPath) ? errorPath : valuePath,
+          originalError: err as any,
+          extensions: err instanceof GraphQLError ? err.extensions : undefined,
+        }),
+      );
+    }
+  }
+
+  #callBackend(values: Array<[TDeferred, Path]>): Promise<unknown[]> {
+    const resolve = () =>
+      this.#resolveDeferredValues(values, this.#args, {
+        execution: this.#token,
+        signal: this.#signal,
+        deadline:
+          this.#args.deadline === undefined
+            ? undefined
+            : Number(this.#args.deadline),
+      });
+    const paths = values.map(([, path]) => pathToArray(path));
+    const traced = this.#tracing
+      ? () => this.#tracing!.backendCall(paths, resolve)
+      : resolve;
+
+    return this.#spans ? this.#spans.backendCall(paths, traced) : traced();
+  }
+
+  #checkBackendCallLimits(
+    deferredValueCount: number,
+  ): GraphQLError | undefined {
+    const { maxDeferredValuesPerStage, maxBackendCalls } = this.#limits;
+    if (
+      maxDeferredValuesPerStage !== undefined &&
+      deferredValueCount > maxDeferredValuesPerStage
+    ) {
+      return new GraphQLError(
+        `Stage ${this.#stage} exceeded the limit of ${maxDeferredValuesPerStage} deferred values with ${deferredValueCount} deferred values.`,
+        { extensions: { code: ErrorCode.LIMIT_EXCEEDED } },
+      );
+    }
+
+    if (
+      maxBackendCalls !== undefined &&
+      this.#backendCallCount >= maxBackendCalls
+    ) {
+      return new GraphQLError(
+        `Execution exceeded the limit of ${maxBackendCalls} backend calls.`,
+        { extensions: { code: ErrorCode.LIMIT_EXCEEDED } },
+      );
+    }
+  }
+
+  #explainDeferredValues(
+    values: Array<[TDeferred, Path]>,
+    executionArgs: ExecutionArgs,
+  ): unknown[] {
+    const stage = this.#explainedStages.length;
+    this.#explainedStages.push({
+      query:
+        this.#backend.explainDeferredValues?.(values, executionArgs) ??
+        values.map(([value]) => value),
+      paths: values.map(([, path]) => pathToArray(path)),
+      restaged: this.#pendingRestages.splice(0),
+    });
+
+    return this.#explain?.stageResults?.[stage] ?? values.map(() => null);
+  }
+
+  /**
+   * The stages that were planned by an execution in explain mode.
+   */
+  public getExplainedStages(): ExplainedStage[] {
+    return this.#explainedStages;
+  }
+
+  #tracePhase<T>(phase: StagePhase, fn: () => T): T {
+    return this.#tracing ? this.#tracing.phase(this.#stage, phase, fn) : fn();
+  }
+
+  /**
+   * Report the fields that will not be resolved because the execution was
+   * aborted or went over one of its limits, leaving whatever has been
+   * resolved so far as partial data.
+   */
+  #abortRemainingFields(reason?: unknown): void {
+    this.#abortPaths(
+      [
+        ...this.#step1_resolve.splice(0),
+        ...this.#pendingRootFields.splice(0),
+      ].map(fieldPath),
+      reason,
+    );
+    this.#abortPaths(
+      this.#step2_evaluate
+        .splice(0)
+        .filter(([value]) => this.#isDeferredValue(value))
+        .map(([, path]) => path),
+      reason,
+    );
+  }
+
+  #abortPaths(paths: Path[], reason: unknown = this.#signal?.reason): void {
+    for (const path of paths) {
+      this.#resultErrors.push(
+        new GraphQLError(
+          reason instanceof Error ? reason.message : "Execution aborted",
+          {
+            path: pathToArray(path),
+            originalError: reason instanceof Error ? reason : undefined,
+            extensions: {
+              code:
+                reason instanceof GraphQLError && reason.extensions.code
+                  ? reason.extensions.code
+                  : ErrorCode.EXECUTION_ABORTED,
+            },
+          },
+        ),
+      );
+    }
+  }
+
+  #restageFields(): void {
+    if (this.#step3_restage.length) {
+      this.#tracePhase("restage", () => this.#restageFieldsPhase());
+    }
+  }
+
+  #restageFieldsPhase(): void {
+    while (this.#step3_restage.length) {
+      const entries = this.#step3_restage;
+      this.#step3_restage = [];
+
+      outer: for (const field of entries) {
+        let sourceValue: any = this.#unvalidatedResult;
+        const path = pathToArray(field.parentPath);
+        for (const [i, key] of path.entries()) {
+          if (sourceValue === null || this.#getBackendError(sourceValue)) {
+            // quietly ignore this, the error should be handled elsewhere
+            continue outer;
+          }
+
+          if (key === "[]") {
+            if (Array.isArray(sourceValue)) {
+              this.#step3_restage.push(
+                ...Array.from(sourceValue, (_, j) => ({
+                  ...field,
+                  parentPath: arrayToPath([
+                    ...path.slice(0, i),
+                    j,
+                    ...path.slice(i + 1),
+                  ]),
+                })),
+              );
+            }
+
+            continue outer;
+          }
+
+          if (typeof sourceValue[key] === "undefined") {
+            continue outer;
+          }
+
+          sourceValue = sourceValue[key];
+        }
+
+        try {
+          this.#step1_resolve.push({
+            ...field,
+            sourceValue,
+          });
+        } catch (err) {
+          if (err instanceof GraphQLError) {
+            this.#resultErrors.push(err);
+          } else {
+            throw err;
+          }
+        }
       }
+    }
+  }
+
+  /**
+   * Call the `subscribe` resolver of the root subscription field to get the
+   * source event stream. Each event is then executed as the root value of a
+   * new execution.
+   */
+  public async createSourceEventStream(): Promise<AsyncIterable<unknown>> {
+    const [fieldNode] = this.#selectFields(
+      this.#operation.selectionSet.selections,
+      this.#rootType,
+    );
+    if (!fieldNode) {
+      throw new GraphQLError("missing subscription field");
+    }
+
+    const fieldDef = this.#compiled.fieldDef(this.#rootType, fieldNode);
+    if (!fieldDef) {
+      throw new GraphQLError(
+        `The subscription field "${fieldNode.name.value}" is not defined.`,
+        { nodes: fieldNode },
+      );
+    }
+
+    const path = addPath(undefined, fieldNodeKey(fieldNode), undefined);
+    try {
+      const eventStream = await (
+        fieldDef.subscribe ??
+        this.#args.subscribeFieldResolver ??
+        defaultFieldResolver
+      )(
+        this.#args.rootValue,
+        resolveArguments(
+          this.#variableValues,
+          fieldNode.arguments,
+          fieldDef.args,
+        ),
+        this.#args.contextValue,
+        this.#buildResolveInfo(
+          {
+            fieldNode,
+            fieldNodes: [fieldNode],
+            path,
+            parentType: this.#rootType,
+          },
+          fieldDef.type,
+        ),
+      );
+      if (eventStream instanceof Error) {
+        throw eventStream;
+      }
+
+      if (!isAsyncIterable(eventStream)) {
+        throw new Error(
+          `Subscription field must return Async Iterable. Received: ${String(eventStream)}.`,
+        );
+      }
+
+      return eventStream;
+    } catch (e) {
+      throw new GraphQLError((e as any)?.message ?? String(e), {
+        nodes: (e as any).nodes ?? [fieldNode],
+        source: (e as any).source ?? fieldNode.loc?.source,
+        positions:
+          (e as any).positions ??
+          (fieldNode.loc?.source && [fieldNode.loc.start]),
+        path: (e as any).path ?? pathToArray(path),
+        originalError: e as any,
+      });
+    }
+  }
+
+  /**
+   * Validate the resolved values against the operation's selection set, or
+   * against the given one, e.g. the initial payload of an incremental
+   * execution.
+   */
+  public async getResult<T>(
+    selectionSet: SelectionSetNode = this.#operation.selectionSet,
+  ): Promise<ExecutionResult<T>> {
+    await emit(this.#lifecycleHooks.onValidate, {
+      data: this.#unvalidatedResult,
+      errors: this.#resultErrors,
+      args: this.#args,
+    });
+
+    const result: ExecutionResult<T> = {
+      data: await this.#getValidatedObjectValue(
+        this.#unvalidatedResult,
+        this.#rootType,
+        this.#selectFields(selectionSet.selections, this.#rootType),
+      ),
+    };
+    if (this.#resultErrors.length) {
+      // dedupe errors
+      const fingerprints = new Set();
+      result.errors = [];
+      for (const error of this.#resultErrors) {
+        const fingerprint = JSON.stringify(error);
+        if (fingerprints.has(fingerprint)) {
+          continue;
+        }
+
+        fingerprints.add(fingerprint);
+
+        (result.errors as GraphQLError[]).push(error);
+      }
+    }
+
+    const extensions = this.#getExtensions();
+    if (extensions) {
+      result.extensions = extensions;
+    }
+
+    this.#spans?.end(result.errors);
+    this.#spans = undefined;
+    this.#disposeSignal();
+
+    return result;
+  }
+
+  #getExtensions(): Record<string, unknown> | undefined {
+    const extensions = {
+      ...this.#backend.getResultExtensions?.(this.#args, this.#token),
+      ...(this.#tracing && { tracing: this.#tracing.toJSON() }),
+    };
+    return Object.keys(extensions).length ? extensions : undefined;
+  }
+
+  /**
+   * The errors of resolving the fields of a phase of an incremental
+   * execution, which the payloads of the phase share.
+   */
+  public get errors(): readonly GraphQLError[] {
+    return this.#resultErrors;
+  }
+
+  /**
+   * The streamed lists whose items after the initial count were held back
+   * while resolving a phase of an incremental execution, for the next phase
+   * to resolve.
+   */
+  public get heldBackStreams(): ReadonlyArray<
+    [path: Array<string | number>, start: number]
+  > {
+    return this.#heldBackStreams;
+  }
+
+  /**
+   * Validate the deferred fragment of an object that a phase of an
+   * incremental execution resolved, along with the errors of validating it.
+   */
+  public async getDeferredResult(
+    path: ReadonlyArray<string | number>,
+    ancestors: ReadonlyArray<FieldNode | InlineFragmentNode>,
+    fragment: InlineFragmentNode,
+  ): Promise<[data: Record<string, unknown> | null, errors: GraphQLError[]]> {
+    const start = this.#resultErrors.length;
+    const instance = await this.#findInstance(path, ancestors);
+    let data: Record<string, unknown> | null = null;
+    if (!instance.field) {
+      data = await this.#getValidatedObjectValue(
+        instance.value,
+        this.#rootType,
+        this.#selectFields([fragment], this.#rootType),
+      );
+    } else if (instance.type) {
+      const { fieldNode, parentType, path } = instance.field;
+      // the fragment is validated as the selection set of the field whose
+      // value the object is
+      data = await this.#getValidatedValueRecursive(
+        instance.value,
+        instance.type,
+        [
+          {
+            ...fieldNode,
+            selectionSet: { kind: Kind.SELECTION_SET, selections: [fragment] },
+          },
+        ],
+        0,
+        parentType,
+        path,
+      );
+    }
+
+    return [data, this.#resultErrors.splice(start)];
+  }
 
-      if (this.#step2_evaluate.length) {
-        const entries = this.#step2_evaluate;
-        this.#step2_evaluate = [];
+  /**
+   * Validate the items of a streamed list that a phase of an incremental
+   * execution resolved, from the given index on, along with the errors of
+   * validating them.
+   */
+  public async getStreamResult(
+    path: ReadonlyArray<string | number>,
+    ancestors: ReadonlyArray<FieldNode | InlineFragmentNode>,
+    fieldNode: FieldNode,
+    start: number,
+  ): Promise<[items: unknown[] | null, errors: GraphQLError[]]> {
+    const errorStart = this.#resultErrors.length;
+    const parent = await this.#findInstance(path.slice(0, -1), ancestors);
+    let parentType: GraphQLObjectType | undefined = this.#rootType;
+    if (parent.field) {
+      const type = parent.value && parent.type && getNamedType(parent.type);
+      parentType =
+        type && isAbstractType(type)
+          ? await this.#resolveType(type, parent.value, {
+              ...parent.field,
+              fieldNodes: [parent.field.fieldNode],
+            })
+          : (type as GraphQLObjectType | undefined);
+    }
 
-        const deferredValues: Array<[TDeferred, Path]> = [];
-        const originalIndices: number[] = [];
-        for (const [i, [value, path]] of entries.entries()) {
-          if (this.#isDeferredValue(value)) {
-            originalIndices[deferredValues.length] = i;
-            deferredValues.push([value, path]);
-          }
-        }
+    const items: unknown = parent.value?.[fieldNodeKey(fieldNode)];
+    const listType =
+      parentType &&
+      getNullableType(this.#compiled.fieldDef(parentType, fieldNode)!.type);
+    let validated: unknown[] | null = null;
+    if (parentType && isListType(listType) && Array.isArray(items)) {
+      validated = await this.#getValidatedItems(
+        items.slice(start),
+        start,
+        listType.ofType,
+        [fieldNode],
+        0,
+        parentType,
+        addPath(parent.field?.path, fieldNodeKey(fieldNode), undefined),
+      );
+    }
 
-        for (const [i, resolvedValue] of zip(
-          originalIndices,
-          await this.#resolveDeferredValues(deferredValues, this.#args),
-        )) {
-          entries[i][0] = resolvedValue;
-        }
+    return [validated, this.#resultErrors.splice(errorStart)];
+  }
 
-        for (const [value, path, parentTypeCheck] of entries) {
-          this.#setCompletedPiece(pathToArray(path), value, parentTypeCheck);
-        }
-      }
+  /**
+   * Validate the items of the streamed lists that were cut to their initial
+   * count while validating the payloads of the phase, each with the errors of
+   * validating it.
+   */
+  public async getStreamedItems(): Promise<IncrementalStreamResult[]> {
+    const results: IncrementalStreamResult[] = [];
+    // lists within the items are cut as they are validated
+    for (const streamed of this.#streamedItems) {
+      const start = this.#resultErrors.length;
+      const items = await this.#getValidatedItems(
+        streamed.items,
+        streamed.start,
+        streamed.itemType,
+        streamed.fieldNodes,
+        streamed.fieldNodeIndex,
+        streamed.parentType,
+        streamed.path,
+      );
+      const errors = this.#resultErrors.splice(start);
+      results.push({
+        items,
+        path: [...pathToArray(streamed.path), streamed.start],
+        ...(streamed.label !== undefined && { label: streamed.label }),
+        ...(errors.length ? { errors } : {}),
+      });
+    }
 
-      while (this.#step3_restage.length) {
-        const entries = this.#step3_restage;
-        this.#step3_restage = [];
-
-        outer: for (const field of entries) {
-          let sourceValue: any = this.#unvalidatedResult;
-          const path = pathToArray(field.parentPath);
-          for (const [i, key] of path.entries()) {
-            if (
-              sourceValue === null ||
-              this.#backend.getErrorMessage?.(sourceValue)
-            ) {
-              // quietly ignore this, the error should be handled elsewhere
-              continue outer;
-            }
+    this.#streamedItems = [];
+    return results;
+  }
 
-            if (key === "[]") {
-              if (Array.isArray(sourceValue)) {
-                this.#step3_restage.push(
-                  ...Array.from(sourceValue, (_, j) => ({
-                    ...field,
-                    parentPath: arrayToPath([
-                      ...path.slice(0, i),
-                      j,
-                      ...path.slice(i + 1),
-                    ]),
-                  })),
-                );
-              }
-
-              continue outer;
-            }
+  /**
+   * End a phase of an incremental execution whose payloads were validated
+   * without `getResult`, and get the extensions of the execution so far.
+   */
+  public finishPhase(): Record<string, unknown> | undefined {
+    this.#spans?.end(this.#resultErrors);
+    this.#spans = undefined;
+    this.#disposeSignal();
 
-            if (typeof sourceValue[key] === "undefined") {
-              continue outer;
-            }
+    return this.#getExtensions();
+  }
 
-            sourceValue = sourceValue[key];
-          }
+  /**
+   * Find the resolved value of an object by its path, along with the field
+   * whose value it is, by following the fields of the ancestors. Their type
+   * conditions were checked when the object was found in the data.
+   */
+  async #findInstance(
+    path: ReadonlyArray<string | number>,
+    ancestors: ReadonlyArray<FieldNode | InlineFragmentNode>,
+  ): Promise<{
+    value: any;
+    type?: GraphQLOutputType;
+    field?: { fieldNode: FieldNode; parentType: GraphQLObjectType; path: Path };
+  }> {
+    let value: any = this.#unvalidatedResult;
+    let type: GraphQLOutputType = this.#rootType;
+    let field:
+      | { fieldNode: FieldNode; parentType: GraphQLObjectType; path: Path }
+      | undefined;
+    let depth = 0;
+    for (const ancestor of ancestors) {
+      if (ancestor.kind !== Kind.FIELD) {
+        continue;
+      }
 
-          try {
-            this.#step1_resolve.push({
-              ...field,
-              sourceValue,
-            });
-          } catch (err) {
-            if (err instanceof GraphQLError) {
-              this.#resultErrors.push(err);
-            } else {
-              throw err;
-            }
-          }
-        }
+      let parentType: GraphQLObjectType | undefined;
+      if (isObjectType(type)) {
+        parentType = type;
+      } else if (isAbstractType(type) && field) {
+        parentType = await this.#resolveType(type, value, {
+          ...field,
+          fieldNodes: [field.fieldNode],
+        });
       }
-    }
-  }
 
-  public async getResult<T>(): Promise<ExecutionResult<T>> {
-    const result: ExecutionResult<T> = {
-      data: await this.#getValidatedObjectValue(
-        this.#unvalidatedResult,
-        this.#rootType,
-        selectionFields(
-          this.#schema,
-          this.#fragmentMap,
-          this.#unionMap,
-          this.#operation.selectionSet.selections,
-          this.#rootType,
-        ),
-      ),
-    };
-    if (this.#resultErrors.length) {
-      // dedupe errors
-      const fingerprints = new Set();
-      result.errors = [];
-      for (const error of this.#resultErrors) {
-        const fingerprint = JSON.stringify(error);
-        if (fingerprints.has(fingerprint) && fingerprints.add(fingerprint)) {
-          continue;
-        }
+      if (!parentType || typeof value !== "object" || value === null) {
+        return { value: null, field };
+      }
 
-        (result.errors as GraphQLError[]).push(error);
+      const key = fieldNodeKey(ancestor);
+      let fieldPath = addPath(field?.path, key, undefined);
+      value = value[key];
+      type = getNullableType(
+        this.#compiled.fieldDef(parentType, ancestor)!.type,
+      );
+      depth++;
+      while (isListType(type)) {
+        const index = path[depth++];
+        fieldPath = addPath(fieldPath, index, undefined);
+        value = Array.isArray(value) ? value[index as number] : null;
+        type = getNullableType(type.ofType);
       }
+
+      field = { fieldNode: ancestor, parentType, path: fieldPath };
     }
 
-    return result;
+    return { value, type, field };
   }
 
   async #getValidatedObjectValue(
@@ -497,8 +1690,7 @@ class Execution<TDeferred> {
           fieldNodeIndex,
         ): Promise<[FieldNode, GraphQLOutputType, any]> => {
           const key = fieldNodeKey(fieldNode);
-          const fieldType = getFieldDef(
-            this.#schema,
+          const fieldType = this.#compiled.fieldDef(
             objectType,
             fieldNode,
           )!.type;
@@ -554,14 +1746,18 @@ class Execution<TDeferred> {
     path: Path,
   ): Promise<any> {
     const fieldNode = fieldNodes[fieldNodeIndex];
-    const errorMessage = this.#backend.getErrorMessage?.(fieldValue);
-    if (errorMessage) {
+    const error = this.#getBackendError(fieldValue);
+    if (error) {
       this.#resultErrors.push(
-        new GraphQLError(errorMessage, {
+        new GraphQLError(error.message, {
           nodes: fieldNode,
           source: fieldNode.loc?.source,
           positions: fieldNode.loc?.source && [fieldNode.loc.start],
-          path: pathToArray(path),
+          path: [...pathToArray(path), ...(error.path ?? [])],
+          extensions:
+            error.code === undefined
+              ? error.extensions
+              : { ...error.extensions, code: error.code },
         }),
       );
       return null;
@@ -569,6 +1765,12 @@ class Execution<TDeferred> {
 
     if (isNonNullType(fieldType)) {
       if (isNullValue(fieldValue)) {
+        if (this.#hasErrorAtPath(path)) {
+          // the value is only missing because of an error that was already
+          // reported, it just needs to be propagated
+          return null;
+        }
+
         this.#resultErrors.push(
           new GraphQLError("Cannot return null for non-nullable field", {
             nodes: fieldNode,
@@ -580,7 +1782,9 @@ class Execution<TDeferred> {
         return null;
       }
 
-      const value = await this.#getValidatedValueRecursive(
+      // a null here comes from an error further down which has already been
+      // reported, so it propagates to the nearest nullable parent as is
+      return await this.#getValidatedValueRecursive(
         fieldValue,
         fieldType.ofType,
         fieldNodes,
@@ -588,8 +1792,6 @@ class Execution<TDeferred> {
         parentType,
         path,
       );
-      // TODO: consider necessity of checking for null here
-      return value;
     }
 
     if (isNullValue(fieldValue)) {
@@ -609,29 +1811,36 @@ class Execution<TDeferred> {
         return null;
       }
 
-      if (fieldValue.length === 0) {
-        return fieldValue;
+      let items: unknown[] = fieldValue;
+      const stream =
+        typeof path.key === "string" ? this.#getStream(fieldNode) : undefined;
+      if (stream && items.length > stream.initialCount) {
+        this.#streamedItems.push({
+          items: items.slice(stream.initialCount),
+          start: stream.initialCount,
+          label: stream.label,
+          itemType: fieldType.ofType,
+          fieldNodes,
+          fieldNodeIndex,
+          parentType,
+          path,
+        });
+        items = items.slice(0, stream.initialCount);
       }
 
-      const result = await Promise.all(
-        Array.from(fieldValue, (elem, index) =>
-          this.#getValidatedValueRecursive(
-            elem,
-            fieldType.ofType,
-            fieldNodes,
-            fieldNodeIndex,
-            parentType,
-            addPath(path, index, undefined),
-          ),
-        ),
-      );
-      if (getNullableType(fieldType.ofType) !== fieldType.ofType) {
-        if (result.some(isNullValue)) {
-          return null;
-        }
+      if (items.length === 0) {
+        return items;
       }
 
-      return result.filter((v) => v !== null);
+      return this.#getValidatedItems(
+        items,
+        0,
+        fieldType.ofType,
+        fieldNodes,
+        fieldNodeIndex,
+        parentType,
+        path,
+      );
     }
 
     if (isLeafType(fieldType)) {
@@ -665,7 +1874,7 @@ class Execution<TDeferred> {
         parentType: parentType,
       });
       if (!resolvedType) {
-        return;
+        return null;
       }
 
       concreteType = resolvedType;
@@ -676,10 +1885,7 @@ class Execution<TDeferred> {
     return this.#getValidatedObjectValue(
       fieldValue,
       concreteType,
-      selectionFields(
-        this.#schema,
-        this.#fragmentMap,
-        this.#unionMap,
+      this.#selectFields(
         fieldNode.selectionSet?.selections ?? [],
         concreteType,
       ),
@@ -687,6 +1893,79 @@ class Execution<TDeferred> {
     );
   }
 
+  async #getValidatedItems(
+    items: unknown[],
+    start: number,
+    itemType: GraphQLOutputType,
+    fieldNodes: readonly FieldNode[],
+    fieldNodeIndex: number,
+    parentType: GraphQLObjectType,
+    path: Path,
+  ): Promise<unknown[] | null> {
+    const result = await Promise.all(
+      Array.from(items, (elem, index) =>
+        this.#getValidatedValueRecursive(
+          elem,
+          itemType,
+          fieldNodes,
+          fieldNodeIndex,
+          parentType,
+          addPath(path, start + index, undefined),
+        ),
+      ),
+    );
+    if (isNonNullType(itemType) && result.some(isNullValue)) {
+      return null;
+    }
+
+    // nullable items that failed stay in place so that their indices still
+    // match the paths of their errors
+    return result.map((v) => v ?? null);
+  }
+
+  /**
+   * The arguments of `@stream` on a list field of an incremental execution.
+   */
+  #getStream(
+    fieldNode: FieldNode,
+  ): { initialCount: number; label: string | undefined } | undefined {
+    if (!this.#incremental) {
+      return undefined;
+    }
+
+    const stream = getDirectiveValues(
+      GraphQLStreamDirective,
+      fieldNode,
+      this.#variableValues,
+    );
+    if (!stream || stream.if === false) {
+      return undefined;
+    }
+
+    return {
+      initialCount: stream.initialCount as number,
+      label: stream.label as string | undefined,
+    };
+  }
+
+  #getBackendError(value: unknown): BackendError | null {
+    if (this.#backend.getError) {
+      return this.#backend.getError(value);
+    }
+
+    const message = this.#backend.getErrorMessage?.(value);
+    return message ? { message } : null;
+  }
+
+  /**
+   * Whether an error was reported at the path or below it, e.g. a backend
+   * error that was located within a deferred value.
+   */
+  #hasErrorAtPath(path: Path): boolean {
+    const prefix = pathToArray(path);
+    return this.#resultErrors.some((error) => isPathPrefix(prefix, error.path));
+  }
+
   #setCompletedPiece(
     path: Array<string | number>,
     value: any,
@@ -694,7 +1973,7 @@ class Execution<TDeferred> {
   ): void {
     let node = this.#unvalidatedResult;
     for (const [i, key] of path.slice(0, -1).entries()) {
-      if (node === null || this.#backend.getErrorMessage?.(node)) {
+      if (node === null || this.#getBackendError(node)) {
         // quietly ignore this, the error should be handled elsewhere
         return;
       }
@@ -791,15 +2070,30 @@ class Execution<TDeferred> {
     const fieldNode = fieldNodes[fieldNodeIndex];
     const fieldPath = addPath(objectPath, fieldNodeKey(fieldNode), undefined);
     try {
-      const fieldDef = getFieldDef(this.#schema, objectType, fieldNode)!;
-      const resolvedValue = await this.#executeFieldResolver(
-        sourceValue,
-        objectType,
-        fieldDef,
-        fieldNodes,
-        fieldNodeIndex,
-        fieldPath,
-      );
+      const fieldDef = this.#compiled.fieldDef(objectType, fieldNode)!;
+      const phaseKey =
+        this.#phaseValues && JSON.stringify(pathToArray(fieldPath));
+      let resolvedValue: unknown;
+      if (phaseKey !== undefined && this.#phaseValues!.has(phaseKey)) {
+        // an earlier phase resolved the field, its resolver may not be safe
+        // to call again and would give a value that the delivered payloads
+        // may disagree with
+        resolvedValue = this.#phaseValues!.get(phaseKey);
+      } else {
+        resolvedValue = await this.#executeFieldResolver(
+          sourceValue,
+          objectType,
+          fieldDef,
+          fieldNodes,
+          fieldNodeIndex,
+          fieldPath,
+        );
+        // values within the query of a deferred parent can't be evaluated on
+        // their own
+        if (phaseKey !== undefined && !setDeferredChild) {
+          this.#phaseValues!.set(phaseKey, resolvedValue);
+        }
+      }
 
       let setResult: ((data: any) => void) | undefined;
       if (setDeferredChild && !this.#isDeferredValue(resolvedValue)) {
@@ -839,6 +2133,13 @@ class Execution<TDeferred> {
           parentType: objectType,
           parentPath: objectPath,
         });
+        if (this.#explain) {
+          this.#pendingRestages.push({
+            path: pathToArray(fieldPath),
+            field: `${objectType.name}.${fieldNode.name.value}`,
+            reason: "The field resolver awaited its deferred source value.",
+          });
+        }
       } else {
         this.#resultErrors.push(
           new GraphQLError((e as any)?.message ?? String(e), {
@@ -894,17 +2195,10 @@ class Execution<TDeferred> {
        */
       const selectionsMap = new Map(
         Array.from(
-          namedFieldType instanceof GraphQLInterfaceType
-            ? findImplementors(this.#schema, namedFieldType)
-            : namedFieldType instanceof GraphQLUnionType
-              ? namedFieldType.getTypes()
-              : [namedFieldType as GraphQLObjectType],
+          this.#compiled.concreteTypes(namedFieldType as GraphQLCompositeType),
           (concreteType) => [
             concreteType,
-            selectionFields(
-              this.#schema,
-              this.#fragmentMap,
-              this.#unionMap,
+            this.#selectFields(
               fieldNode.selectionSet?.selections ?? [],
               concreteType,
             ),
@@ -963,9 +2257,20 @@ class Execution<TDeferred> {
         return null;
       }
 
+      let items: unknown[] = resolvedValue;
+      const stream =
+        this.#phaseValues && !setDeferredChild && typeof path.key === "string"
+          ? this.#getStream(fieldNode)
+          : undefined;
+      if (stream && items.length > stream.initialCount) {
+        // the next phase resolves the other items
+        this.#heldBackStreams.push([pathToArray(path), stream.initialCount]);
+        items = items.slice(0, stream.initialCount);
+      }
+
       const elemType = getNullableType(valueType.ofType);
       return await Promise.all(
-        Array.from(resolvedValue, (elemValue, i) =>
+        Array.from(items, (elemValue, i) =>
           this.#handleResolvedValue(
             elemValue,
             elemType,
@@ -997,10 +2302,7 @@ class Execution<TDeferred> {
     const result = await this.#resolveObjectFields(
       resolvedValue,
       concreteType,
-      selectionFields(
-        this.#schema,
-        this.#fragmentMap,
-        this.#unionMap,
+      this.#selectFields(
         fieldNode.selectionSet?.selections ?? [],
         concreteType,
       ),
@@ -1021,19 +2323,15 @@ class Execution<TDeferred> {
     sourceValue: any,
     selectionNodes: readonly SelectionNode[],
   ): Array<FieldToResolve> {
-    return selectionFields(
-      this.#schema,
-      this.#fragmentMap,
-      this.#unionMap,
-      selectionNodes,
-      parentType,
-    ).map((_, i, fieldNodes) => ({
-      sourceValue,
-      parentType,
-      fieldNodes,
-      fieldNodeIndex: i,
-      parentPath: prevPath,
-    }));
+    return this.#selectFields(selectionNodes, parentType).map(
+      (_, i, fieldNodes) => ({
+        sourceValue,
+        parentType,
+        fieldNodes,
+        fieldNodeIndex: i,
+        parentPath: prevPath,
+      }),
+    );
   }
 
   #buildResolveInfo(
@@ -1043,7 +2341,7 @@ class Execution<TDeferred> {
     return {
       schema: this.#schema,
       rootValue: this.#args.rootValue,
-      fragments: this.#fragmentMap,
+      fragments: this.#compiled.fragmentMap,
       operation: this.#operation,
       variableValues: this.#variableValues,
       parentType: input.parentType,
@@ -1131,6 +2429,48 @@ class Execution<TDeferred> {
     fieldNodes: FieldNode[],
     fieldNodeIndex: number,
     path: Path,
+  ): Promise<any> {
+    const resolve = () =>
+      this.#callFieldResolver(
+        sourceValue,
+        parentType,
+        fieldDef,
+        fieldNodes,
+        fieldNodeIndex,
+        path,
+      );
+    if (!this.#tracing && !this.#spans) {
+      return resolve();
+    }
+
+    const pathArray = pathToArray(path);
+    const traced = this.#tracing
+      ? () =>
+          this.#tracing!.resolver(
+            pathArray,
+            parentType,
+            fieldDef.name,
+            fieldDef.type,
+            resolve,
+          )
+      : resolve;
+
+    return this.#spans
+      ? this.#spans.resolver(
+          `${parentType.name}.${fieldDef.name}`,
+          pathArray,
+          traced,
+        )
+      : traced();
+  }
+
+  async #callFieldResolver(
+    sourceValue: any,
+    parentType: GraphQLObjectType,
+    fieldDef: GraphQLField<any, any>,
+    fieldNodes: FieldNode[],
+    fieldNodeIndex: number,
+    path: Path,
   ): Promise<any> {
     const fieldNode = fieldNodes[fieldNodeIndex];
     let fieldValue = this.#fieldResolverMiddleware(
@@ -1184,10 +2524,11 @@ class Execution<TDeferred> {
   }
 }
 
-export function createExecuteFn<TDeferred>(
-  backend: ExecutorBackend<TDeferred>,
-  options: CreateExecuteFnOptions<unknown, unknown, TDeferred> = {},
-): <T = any>(args: ExecutionArgs) => Promise<ExecutionResult<T>> {
+function createHooksFactory<TDeferred>(
+  options: CreateExecuteFnOptions<unknown, unknown, TDeferred>,
+): (
+  args: Middlewares<unknown, unknown, TDeferred>,
+) => Hooks<unknown, unknown, TDeferred> {
   const rootFieldResolverMiddleware = flattenMiddleware(
     options.fieldResolverMiddleware,
   );
@@ -1204,43 +2545,400 @@ export function createExecuteFn<TDeferred>(
     options.resolveDeferredValuesMiddleware,
   );
 
+  return (args) => ({
+    fieldResolverMiddleware: flattenMiddleware([
+      flattenMiddleware(args.fieldResolverMiddleware),
+      rootFieldResolverMiddleware,
+    ]),
+    fieldResolverGetterMiddleware: flattenMiddleware([
+      flattenMiddleware(args.fieldResolverGetterMiddleware),
+      rootFieldResolverGetterMiddleware,
+    ]),
+    typeResolverGetterMiddleware: flattenMiddleware([
+      flattenMiddleware(args.typeResolverGetterMiddleware),
+      rootTypeResolverGetterMiddleware,
+    ]),
+    serializerGetterMiddleware: flattenMiddleware([
+      flattenMiddleware(args.serializerGetterMiddleware),
+      rootSerializerGetterMiddleware,
+    ]),
+    resolveDeferredValuesMiddleware: flattenMiddleware([
+      flattenMiddleware(args.resolveDeferredValuesMiddleware),
+      rootResolveDeferredValuesMiddleware,
+    ]),
+  });
+}
+
+function errorResult<T>(err: any): ExecutionResult<T> {
+  return {
+    errors: Array.from(Array.isArray(err) ? err : [err], (err) =>
+      err instanceof GraphQLError
+        ? err
+        : new GraphQLError(err.message, { originalError: err }),
+    ),
+  };
+}
+
+function formatErrors<T>(
+  result: ExecutionResult<T>,
+  args: ExecutionArgs,
+  errorFormatter: ErrorFormatter | undefined,
+): ExecutionResult<T> {
+  if (!errorFormatter || !result.errors) {
+    return result;
+  }
+
+  return {
+    ...result,
+    errors: result.errors.map((error) => errorFormatter(error, args)),
+  };
+}
+
+async function startExecution<TDeferred>(
+  backend: ExecutorBackend<TDeferred>,
+  args: ExecutionArgs & CancellationArgs,
+  hooks: Hooks<unknown, unknown, TDeferred>,
+  options: ExecutionOptions,
+): Promise<Execution<TDeferred>> {
+  await emit(options.onExecuteStart, args);
+  assertValidDocument(args, options.validate);
+  if (options.costLimits) {
+    assertCostWithinLimits(args, options.costLimits);
+  }
+
+  return new Execution(backend, args, hooks, options);
+}
+
+async function finishExecution<T>(
+  result: ExecutionResult<T>,
+  args: ExecutionArgs,
+  options: ExecutionOptions,
+): Promise<ExecutionResult<T>> {
+  let finalResult = formatErrors(result, args, options.errorFormatter);
+
+  try {
+    for (const handler of toArray(options.onResult)) {
+      await handler({
+        result: finalResult as ExecutionResult,
+        setResult: (replacement) => {
+          finalResult = replacement as ExecutionResult<T>;
+        },
+        args,
+      });
+    }
+  } catch (err) {
+    return errorResult(err);
+  }
+
+  return finalResult;
+}
+
+async function runExecution<TDeferred, T>(
+  backend: ExecutorBackend<TDeferred>,
+  args: ExecutionArgs & CancellationArgs,
+  hooks: Hooks<unknown, unknown, TDeferred>,
+  options: ExecutionOptions,
+): Promise<ExecutionResult<T>> {
+  try {
+    const execution = await startExecution(backend, args, hooks, options);
+    await execution.execute();
+    return await execution.getResult();
+  } catch (err) {
+    return errorResult(err);
+  }
+}
+
+async function executeWithHooks<TDeferred, T>(
+  backend: ExecutorBackend<TDeferred>,
+  args: ExecutionArgs & CancellationArgs,
+  hooks: Hooks<unknown, unknown, TDeferred>,
+  options: ExecutionOptions = {},
+): Promise<ExecutionResult<T>> {
+  return finishExecution(
+    await runExecution<TDeferred, T>(backend, args, hooks, options),
+    args,
+    options,
+  );
+}
+
+export function createExecuteFn<TDeferred>(
+  backend: ExecutorBackend<TDeferred>,
+  options: CreateExecuteFnOptions<unknown, unknown, TDeferred> = {},
+): <T = any>(
+  args: ExecutionArgs & CancellationArgs,
+) => Promise<ExecutionResult<T>> {
+  const createHooks = createHooksFactory(options);
+
   return async function execute<T = any>(
-    args: ExecutionArgs & Middlewares<unknown, unknown, TDeferred>,
+    args: ExecutionArgs &
+      Middlewares<unknown, unknown, TDeferred> &
+      CancellationArgs,
   ): Promise<ExecutionResult<T>> {
-    const execution = new Execution(backend, args, {
-      fieldResolverMiddleware: flattenMiddleware([
-        flattenMiddleware(args.fieldResolverMiddleware),
-        rootFieldResolverMiddleware,
-      ]),
-      fieldResolverGetterMiddleware: flattenMiddleware([
-        flattenMiddleware(args.fieldResolverGetterMiddleware),
-        rootFieldResolverGetterMiddleware,
-      ]),
-      typeResolverGetterMiddleware: flattenMiddleware([
-        flattenMiddleware(args.typeResolverGetterMiddleware),
-        rootTypeResolverGetterMiddleware,
-      ]),
-      serializerGetterMiddleware: flattenMiddleware([
-        flattenMiddleware(args.serializerGetterMiddleware),
-        rootSerializerGetterMiddleware,
-      ]),
-      resolveDeferredValuesMiddleware: flattenMiddleware([
-        flattenMiddleware(args.resolveDeferredValuesMiddleware),
-        rootResolveDeferredValuesMiddleware,
-      ]),
-    });
+    return executeWithHooks(backend, args, createHooks(args), options);
+  };
+}
+
+/**
+ * Create a function that plans an execution without running it. The returned
+ * handle is driven by calling `nextStage`, resolving the deferred values of
+ * the stage, e.g. with the backend's `resolveDeferredValues`, and passing
+ * them to `submitStageResults` until `nextStage` returns undefined. The
+ * `resolveDeferredValuesMiddleware` and `bisectFailedBatches` options are not
+ * used since the deferred values are resolved by the caller.
+ */
+export function createPlanFn<TDeferred>(
+  backend: ExecutorBackend<TDeferred>,
+  options: CreateExecuteFnOptions<unknown, unknown, TDeferred> = {},
+): <T = any>(
+  args: ExecutionArgs & CancellationArgs,
+) => Promise<ExecutionPlan<TDeferred, T>> {
+  const createHooks = createHooksFactory(options);
+
+  return async function plan<T = any>(
+    args: ExecutionArgs &
+      Middlewares<unknown, unknown, TDeferred> &
+      CancellationArgs,
+  ): Promise<ExecutionPlan<TDeferred, T>> {
+    let execution: Execution<TDeferred> | undefined;
+    let error: unknown;
+    try {
+      execution = await startExecution(
+        backend,
+        args,
+        createHooks(args),
+        options,
+      );
+    } catch (err) {
+      error = err;
+    }
+
+    // errors of the execution itself end up in the result, like they do for
+    // the execute function
+    const fail = (err: unknown) => {
+      execution = undefined;
+      error = err;
+    };
+
+    return {
+      async nextStage() {
+        try {
+          return await execution?.nextStage();
+        } catch (err) {
+          fail(err);
+        }
+      },
+
+      async submitStageResults(results) {
+        if (!execution) {
+          throw new Error("The execution has already failed.");
+        }
+
+        try {
+          await execution.submitStageResults(results);
+        } catch (err) {
+          fail(err);
+        }
+      },
+
+      async getResult() {
+        let result: ExecutionResult<T>;
+        try {
+          if (!execution) {
+            throw error;
+          }
+
+          result = await execution.getResult<T>();
+        } catch (err) {
+          result = errorResult(err);
+        }
+
+        return finishExecution(result, args, options);
+      },
+    };
+  };
+}
 
+/**
+ * Create a function that runs the resolver pipeline without sending anything
+ * to the backend. The queries that would have been sent, the paths that they
+ * cover and the fields that had to be restaged are listed per stage in the
+ * `explain` extension of the result.
+ */
+export function createExplainFn<TDeferred>(
+  backend: ExecutorBackend<TDeferred>,
+  options: CreateExecuteFnOptions<unknown, unknown, TDeferred> = {},
+): <T = any>(
+  args: ExecutionArgs & ExplainArgs,
+) => Promise<ExecutionResult<T, { explain: { stages: ExplainedStage[] } }>> {
+  const createHooks = createHooksFactory(options);
+
+  return async function explain<T = any>(
+    args: ExecutionArgs &
+      Middlewares<unknown, unknown, TDeferred> &
+      ExplainArgs,
+  ): Promise<ExecutionResult<T, { explain: { stages: ExplainedStage[] } }>> {
+    let execution: Execution<TDeferred> | undefined;
+    let result: ExecutionResult<T>;
     try {
+      execution = await startExecution(backend, args, createHooks(args), {
+        ...options,
+        explain: { stageResults: args.stageResults },
+      });
       await execution.execute();
-      return await execution.getResult();
+      result = await execution.getResult<T>();
     } catch (err) {
-      return {
-        errors: Array.from(Array.isArray(err) ? err : [err], (err) =>
-          err instanceof GraphQLError
-            ? err
-            : new GraphQLError(err.message, { originalError: err }),
-        ),
-      };
+      result = errorResult(err);
+    }
+
+    return finishExecution(
+      {
+        ...result,
+        extensions: {
+          ...result.extensions,
+          explain: { stages: execution?.getExplainedStages() ?? [] },
+        },
+      },
+      args,
+      options,
+    ) as Promise<ExecutionResult<T, { explain: { stages: ExplainedStage[] } }>>;
+  };
+}
+
+/**
+ * Create an execute function that supports `@defer` and `@stream`. Operations
+ * without either directive produce a single result, otherwise the initial
+ * result is returned as soon as its stages finish, and followed by the
+ * deferred and streamed patches as their own stages finish.
+ */
+export function createExecuteIncrementallyFn<TDeferred>(
+  backend: ExecutorBackend<TDeferred>,
+  options: CreateExecuteFnOptions<unknown, unknown, TDeferred> = {},
+): <T = any>(
+  args: ExecutionArgs & CancellationArgs,
+) => Promise<ExecutionResult<T> | IncrementalExecutionResults<T>> {
+  const createHooks = createHooksFactory(options);
+
+  return async function executeIncrementallyFn<T = any>(
+    args: ExecutionArgs &
+      Middlewares<unknown, unknown, TDeferred> &
+      CancellationArgs,
+  ): Promise<ExecutionResult<T> | IncrementalExecutionResults<T>> {
+    const hooks = createHooks(args);
+    // the executed documents are derived from the validated one, with the
+    // deferred fragments split out and aliased `__typename` fields added
+    const phaseOptions: ExecutionOptions = {
+      ...options,
+      validate: false,
+      costLimits: undefined,
+    };
+
+    let result: ExecutionResult<T> | IncrementalExecutionResults<T>;
+    try {
+      assertValidDocument(args, options.validate);
+      if (options.costLimits) {
+        assertCostWithinLimits(args, options.costLimits);
+      }
+
+      result = await executeIncrementally<T>(args, {
+        execute: (args) => runExecution(backend, args, hooks, phaseOptions),
+        executePhase: async (document, incremental, previousPhase) => {
+          const phaseArgs = { ...args, document };
+          const execution = previousPhase
+            ? new Execution(backend, phaseArgs, hooks, {
+                ...phaseOptions,
+                incremental,
+                previousPhase: previousPhase as Execution<TDeferred>,
+              })
+            : await startExecution(backend, phaseArgs, hooks, {
+                ...phaseOptions,
+                incremental,
+              });
+          await execution.execute();
+          return execution;
+        },
+      });
+    } catch (err) {
+      return formatErrors(errorResult(err), args, options.errorFormatter);
+    }
+
+    if (!("initialResult" in result)) {
+      return finishExecution(result, args, options);
+    }
+
+    const { errorFormatter } = options;
+    const { hasNext, ...initialResult } = result.initialResult;
+    return {
+      initialResult: {
+        ...(await finishExecution(initialResult, args, options)),
+        hasNext,
+      },
+      subsequentResults: errorFormatter
+        ? mapAsyncIterable(
+            result.subsequentResults,
+            ({ incremental, ...subsequentResult }) => ({
+              ...subsequentResult,
+              ...(incremental && {
+                incremental: incremental.map((incrementalResult) =>
+                  incrementalResult.errors
+                    ? {
+                        ...incrementalResult,
+                        errors: incrementalResult.errors.map((error) =>
+                          errorFormatter(error, args),
+                        ),
+                      }
+                    : incrementalResult,
+                ),
+              }),
+            }),
+          )
+        : result.subsequentResults,
+    };
+  };
+}
+
+/**
+ * Create a function similar to graphql-js' `subscribe`, where every event
+ * emitted by the root field's `subscribe` resolver is run through the full
+ * multistage pipeline as the root value.
+ */
+export function createSubscribeFn<TDeferred>(
+  backend: ExecutorBackend<TDeferred>,
+  options: CreateExecuteFnOptions<unknown, unknown, TDeferred> = {},
+): <T = any>(
+  args: ExecutionArgs & CancellationArgs,
+) => Promise<
+  AsyncGenerator<ExecutionResult<T>, void, void> | ExecutionResult<T>
+> {
+  const createHooks = createHooksFactory(options);
+
+  return async function subscribe<T = any>(
+    args: ExecutionArgs &
+      Middlewares<unknown, unknown, TDeferred> &
+      CancellationArgs,
+  ): Promise<
+    AsyncGenerator<ExecutionResult<T>, void, void> | ExecutionResult<T>
+  > {
+    const hooks = createHooks(args);
+
+    let eventStream: AsyncIterable<unknown>;
+    try {
+      assertValidDocument(args, options.validate);
+      eventStream = await new Execution(
+        backend,
+        args,
+        hooks,
+      ).createSourceEventStream();
+    } catch (err) {
+      return formatErrors(errorResult(err), args, options.errorFormatter);
     }
+
+    return mapAsyncIterable(eventStream, (payload) =>
+      executeWithHooks<TDeferred, T>(
+        backend,
+        { ...args, rootValue: payload },
+        hooks,
+        options,
+      ),
+    );
   };
 }
@@ -0,0 +1,321 @@
+import { describe, expect, test } from "@jest/globals";
+import { Client } from "fauna";
+import {
+  type GraphQLFieldConfig,
+  GraphQLInt,
+  GraphQLInterfaceType,
+  GraphQLList,
+  GraphQLObjectType,
+  GraphQLSchema,
+  GraphQLString,
+  parse,
+} from "graphql";
+import createExecutorBackend, {
+  type CreateExecutorBackendOptions,
+  fql,
+} from "./backends/faunadbV10";
+import { createExecuteIncrementallyFn } from "./executor";
+
+const client = new Client({
+  endpoint: new URL("http://localhost:8443"),
+  secret: "secret",
+
+  // NOTE: this stops jest from complaining about
+  //       not exiting "one second after the test run has completed".
+  http2_session_idle_ms: 100,
+});
+
+function makeSchema(fields: Record<string, GraphQLFieldConfig<any, any, any>>) {
+  return new GraphQLSchema({
+    query: new GraphQLObjectType({
+      name: "Query",
+      fields,
+    }),
+  });
+}
+
+describe("incremental delivery", () => {
+  const barType = new GraphQLObjectType({
+    name: "Bar",
+    fields: {
+      bar: { type: GraphQLString },
+      baz: { type: GraphQLString },
+      list: { type: new GraphQLList(GraphQLInt) },
+    },
+  });
+
+  async function executeIncrementally(
+    schema: GraphQLSchema,
+    query: string,
+    backendOptions: CreateExecutorBackendOptions = {},
+  ): Promise<unknown[]> {
+    const result = await createExecuteIncrementallyFn(
+      createExecutorBackend(client, backendOptions),
+    )({ schema, document: parse(query) });
+    if (!("initialResult" in result)) {
+      return [JSON.parse(JSON.stringify(result))];
+    }
+
+    const results: unknown[] = [result.initialResult];
+    for await (const subsequentResult of result.subsequentResults) {
+      results.push(subsequentResult);
+    }
+
+    return JSON.parse(JSON.stringify(results));
+  }
+
+  test("without directives", async () => {
+    expect(
+      await executeIncrementally(
+        makeSchema({
+          foo: { type: barType, resolve: () => ({ bar: "bar" }) },
+        }),
+        "{ foo { bar } }",
+      ),
+    ).toStrictEqual([{ data: { foo: { bar: "bar" } } }]);
+  });
+
+  test("literal defer", async () => {
+    expect(
+      await executeIncrementally(
+        makeSchema({
+          foo: {
+            type: new GraphQLList(barType),
+            resolve: () => [
+              { bar: "a", baz: "b" },
+              { bar: "c", baz: "d" },
+            ],
+          },
+        }),
+        '{ foo { bar ...Baz @defer(label: "baz") } } fragment Baz on Bar { baz }',
+      ),
+    ).toStrictEqual([
+      { data: { foo: [{ bar: "a" }, { bar: "c" }] }, hasNext: true },
+      {
+        incremental: [
+          { data: { baz: "b" }, path: ["foo", 0], label: "baz" },
+          { data: { baz: "d" }, path: ["foo", 1], label: "baz" },
+        ],
+        hasNext: false,
+      },
+    ]);
+  });
+
+  test("initial payload before the deferred query", async () => {
+    const queries: string[] = [];
+    let deferredQueried!: () => void;
+    const deferredQuery = new Promise<void>((resolve) => {
+      deferredQueried = resolve;
+    });
+    let releaseDeferred!: () => void;
+    const deferredReleased = new Promise<void>((resolve) => {
+      releaseDeferred = resolve;
+    });
+    const result = await createExecuteIncrementallyFn(
+      createExecutorBackend(client, {
+        queryMiddleware: () => async (_client, query) => {
+          const encoded = JSON.stringify(query.encode());
+          queries.push(encoded);
+          if (encoded.includes("START OF baz")) {
+            deferredQueried();
+            await deferredReleased;
+          }
+
+          return { data: [{ bar: "bar", baz: "baz" }] } as any;
+        },
+      }),
+    )({
+      schema: makeSchema({
+        foo: {
+          type: barType,
+          resolve: () => fql`{ bar: "bar", baz: "baz" }`,
+        },
+      }),
+      document: parse("{ foo { bar ... @defer { baz } } }"),
+    });
+    if (!("initialResult" in result)) {
+      throw new Error("expected an incremental result");
+    }
+
+    expect(result.initialResult).toStrictEqual({
+      data: { foo: { bar: "bar" } },
+      hasNext: true,
+    });
+
+    // the deferred fragment has a query of its own, which is blocked until
+    // the initial payload was received
+    await deferredQuery;
+    expect(queries).toHaveLength(2);
+    expect(queries[0]).toContain("START OF bar");
+    expect(queries[0]).not.toContain("START OF baz");
+    expect(queries[1]).toContain("START OF baz");
+
+    releaseDeferred();
+    const subsequentResults: unknown[] = [];
+    for await (const subsequentResult of result.subsequentResults) {
+      subsequentResults.push(subsequentResult);
+    }
+
+    expect(subsequentResults).toStrictEqual([
+      {
+        incremental: [{ data: { baz: "baz" }, path: ["foo"] }],
+        hasNext: false,
+      },
+    ]);
+  });
+
+  test("deferred fragments in mutations", async () => {
+    let created = 0;
+    const schema = new GraphQLSchema({
+      query: new GraphQLObjectType({
+        name: "Query",
+        fields: { foo: { type: GraphQLString } },
+      }),
+      mutation: new GraphQLObjectType({
+        name: "Mutation",
+        fields: {
+          create: {
+            type: new GraphQLObjectType({
+              name: "Created",
+              fields: {
+                id: { type: GraphQLInt },
+                name: { type: GraphQLString },
+              },
+            }),
+            resolve: () => {
+              created++;
+              return { id: created, name: `n${created}` };
+            },
+          },
+        },
+      }),
+    });
+
+    expect(
+      await executeIncrementally(
+        schema,
+        "mutation { create { id ... @defer { name } } }",
+      ),
+    ).toStrictEqual([
+      { data: { create: { id: 1 } }, hasNext: true },
+      {
+        incremental: [{ data: { name: "n1" }, path: ["create"] }],
+        hasNext: false,
+      },
+    ]);
+    expect(created).toBe(1);
+  });
+
+  test("deferred fragments with type conditions", async () => {
+    const Node = new GraphQLInterfaceType({
+      name: "Node",
+      fields: { id: { type: GraphQLString } },
+    });
+    const A = new GraphQLObjectType({
+      name: "A",
+      interfaces: [Node],
+      isTypeOf: (value) => value.kind === "a",
+      fields: { id: { type: GraphQLString }, a: { type: GraphQLString } },
+    });
+    const B = new GraphQLObjectType({
+      name: "B",
+      interfaces: [Node],
+      isTypeOf: (value) => value.kind === "b",
+      fields: { id: { type: GraphQLString }, b: { type: GraphQLString } },
+    });
+    const schema = new GraphQLSchema({
+      query: new GraphQLObjectType({
+        name: "Query",
+        fields: {
+          nodes: {
+            type: new GraphQLList(Node),
+            resolve: () => [
+              { kind: "a", id: "1", a: "a" },
+              { kind: "b", id: "2", b: "b" },
+            ],
+          },
+        },
+      }),
+      types: [A, B],
+    });
+
+    expect(
+      await executeIncrementally(
+        schema,
+        "{ nodes { id ... on A @defer { a } ... on B { b } } }",
+      ),
+    ).toStrictEqual([
+      { data: { nodes: [{ id: "1" }, { id: "2", b: "b" }] }, hasNext: true },
+      {
+        incremental: [{ data: { a: "a" }, path: ["nodes", 0] }],
+        hasNext: false,
+      },
+    ]);
+  });
+
+  test("errors go with the payload of the field that failed", async () => {
+    expect(
+      await executeIncrementally(
+        makeSchema({
+          foo: {
+            type: new GraphQLObjectType({
+              name: "Failing",
+              fields: {
+                bar: { type: GraphQLString },
+                baz: {
+                  type: GraphQLString,
+                  resolve: () => {
+                    throw new Error("baz failed");
+                  },
+                },
+              },
+            }),
+            resolve: () => ({ bar: "bar" }),
+          },
+        }),
+        "{ foo { bar ... @defer { baz } } }",
+      ),
+    ).toStrictEqual([
+      { data: { foo: { bar: "bar" } }, hasNext: true },
+      {
+        incremental: [
+          {
+            data: { baz: null },
+            path: ["foo"],
+            errors: [
+              {
+                message: "baz failed",
+                locations: [{ line: 1, column: 26 }],
+                path: ["foo", "baz"],
+              },
+            ],
+          },
+        ],
+        hasNext: false,
+      },
+    ]);
+  });
+
+  test("stream", async () => {
+    expect(
+      await executeIncrementally(
+        makeSchema({
+          foo: {
+            type: barType,
+            resolve: () => ({ list: [1, 2, 3] }),
+          },
+        }),
+        "{ foo { first: list @stream(initialCount: 1) rest: list @stream } }",
+      ),
+    ).toStrictEqual([
+      { data: { foo: { first: [1], rest: [] } }, hasNext: true },
+      {
+        incremental: [
+          { items: [2, 3], path: ["foo", "first", 1] },
+          { items: [1, 2, 3], path: ["foo", "rest", 0] },
+        ],
+        hasNext: false,
+      },
+    ]);
+  });
+});
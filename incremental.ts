@@ -0,0 +1,1023 @@
+import {
+  DirectiveLocation,
+  type DirectiveNode,
+  type DocumentNode,
+  type ExecutionArgs,
+  type ExecutionResult,
+  type FieldNode,
+  type FragmentDefinitionNode,
+  GraphQLBoolean,
+  GraphQLDirective,
+  GraphQLError,
+  GraphQLInt,
+  GraphQLNonNull,
+  type GraphQLSchema,
+  GraphQLString,
+  type InlineFragmentNode,
+  Kind,
+  type OperationDefinitionNode,
+  OperationTypeNode,
+  type SelectionNode,
+  type SelectionSetNode,
+  getDirectiveValues,
+  isAbstractType,
+  isObjectType,
+} from "graphql";
+import { coerceVariableValues } from "./arguments";
+import { extractOperationAndFragments } from "./ast";
+import { shouldIncludeNode } from "./selection";
+import { isPathPrefix } from "./utils";
+
+export const GraphQLDeferDirective = new GraphQLDirective({
+  name: "defer",
+  description:
+    "Directs the executor to deliver this fragment in a subsequent payload.",
+  locations: [
+    DirectiveLocation.FRAGMENT_SPREAD,
+    DirectiveLocation.INLINE_FRAGMENT,
+  ],
+  args: {
+    if: { type: new GraphQLNonNull(GraphQLBoolean), defaultValue: true },
+    label: { type: GraphQLString },
+  },
+});
+
+export const GraphQLStreamDirective = new GraphQLDirective({
+  name: "stream",
+  description:
+    "Directs the executor to deliver the items of this list field after the initial payload.",
+  locations: [DirectiveLocation.FIELD],
+  args: {
+    if: { type: new GraphQLNonNull(GraphQLBoolean), defaultValue: true },
+    label: { type: GraphQLString },
+    initialCount: { type: new GraphQLNonNull(GraphQLInt), defaultValue: 0 },
+  },
+});
+
+export interface InitialIncrementalExecutionResult<
+  TData = Record<string, unknown>,
+> extends ExecutionResult<TData> {
+  hasNext: boolean;
+}
+
+export interface IncrementalDeferResult<TData = Record<string, unknown>> {
+  data?: TData | null;
+  errors?: ReadonlyArray<GraphQLError>;
+  path: ReadonlyArray<string | number>;
+  label?: string;
+}
+
+export interface IncrementalStreamResult<TItems = unknown[]> {
+  items?: TItems | null;
+  errors?: ReadonlyArray<GraphQLError>;
+  path: ReadonlyArray<string | number>;
+  label?: string;
+}
+
+export type IncrementalResult =
+  | IncrementalDeferResult
+  | IncrementalStreamResult;
+
+export interface SubsequentIncrementalExecutionResult {
+  incremental?: ReadonlyArray<IncrementalResult>;
+  hasNext: boolean;
+
+  /**
+   * The extensions of the whole execution, e.g. its query stats, on the last
+   * result.
+   */
+  extensions?: Record<string, unknown>;
+}
+
+export interface IncrementalExecutionResults<TData = any> {
+  initialResult: InitialIncrementalExecutionResult<TData>;
+  subsequentResults: AsyncGenerator<
+    SubsequentIncrementalExecutionResult,
+    void,
+    void
+  >;
+}
+
+/**
+ * A phase of an incremental execution, which resolves the fields of its
+ * document in stages and backend calls of its own. Phases reuse the values
+ * that the earlier phases resolved for the same paths, so that the deferred
+ * fragments and the streamed items are resolved from the same values as the
+ * payloads delivered before them.
+ */
+export interface IncrementalPhase {
+  /**
+   * The errors of resolving the fields of the phase.
+   */
+  readonly errors: ReadonlyArray<GraphQLError>;
+
+  /**
+   * The paths of the streamed lists whose items from `start` on are left for
+   * the next phase to resolve.
+   */
+  readonly heldBackStreams: ReadonlyArray<
+    [path: Array<string | number>, start: number]
+  >;
+
+  getResult(selectionSet: SelectionSetNode): Promise<ExecutionResult>;
+  getDeferredResult(
+    path: ReadonlyArray<string | number>,
+    ancestors: ReadonlyArray<AncestorNode>,
+    fragment: InlineFragmentNode,
+  ): Promise<[data: Record<string, unknown> | null, errors: GraphQLError[]]>;
+  getStreamResult(
+    path: ReadonlyArray<string | number>,
+    ancestors: ReadonlyArray<AncestorNode>,
+    fieldNode: FieldNode,
+    start: number,
+  ): Promise<[items: unknown[] | null, errors: GraphQLError[]]>;
+
+  /**
+   * The items of the streamed lists that were cut to their initial count
+   * while getting the results of the phase.
+   */
+  getStreamedItems(): Promise<IncrementalStreamResult[]>;
+  finishPhase(): Record<string, unknown> | undefined;
+}
+
+export interface IncrementalExecutor {
+  execute(args: ExecutionArgs): Promise<ExecutionResult>;
+
+  /**
+   * Resolve the fields of a document. Inline phases resolve the deferred
+   * fragments and streamed items along with their parents, phased ones leave
+   * them to the next phase, which continues from the previous one.
+   */
+  executePhase(
+    document: DocumentNode,
+    mode: "inline" | "phased",
+    previousPhase?: IncrementalPhase,
+  ): Promise<IncrementalPhase>;
+}
+
+interface IncrementalRecord {
+  kind: "defer" | "stream";
+  label?: string;
+
+  /**
+   * Response keys from the root to the deferred fragment's parent field or to
+   * the streamed field, without list indices.
+   */
+  path: string[];
+  parent?: IncrementalRecord;
+
+  /**
+   * The fields and fragments from the root to the deferred fragment or the
+   * streamed field, whose type conditions decide which objects the fragment
+   * applies to.
+   */
+  ancestors: AncestorNode[];
+
+  /**
+   * The deferred fragment, without the fragments deferred within it.
+   */
+  fragment?: InlineFragmentNode;
+
+  /**
+   * The streamed field without `@stream`, which selects all of its items.
+   */
+  field?: FieldNode;
+}
+
+type AncestorNode = FieldNode | InlineFragmentNode;
+
+/**
+ * The alias of the `__typename` fields that are added next to type conditions,
+ * so that the result can be split by them.
+ */
+const typenameAlias = "__incrementalTypename";
+
+const typenameField: FieldNode = {
+  kind: Kind.FIELD,
+  alias: { kind: Kind.NAME, value: typenameAlias },
+  name: { kind: Kind.NAME, value: "__typename" },
+};
+
+function withoutDirective(
+  directives: ReadonlyArray<DirectiveNode> | undefined,
+  name: string,
+): DirectiveNode[] | undefined {
+  return directives?.filter((directive) => directive.name.value !== name);
+}
+
+/**
+ * Select a deferred fragment or a streamed field through its ancestors. Later
+ * phases select every item of the streamed ancestors, so that the deferred
+ * fragments of the items that were streamed are resolved too.
+ */
+function wrapSelection(
+  ancestors: ReadonlyArray<AncestorNode>,
+  selection: SelectionNode,
+  allItems: boolean,
+): SelectionSetNode {
+  let selectionSet: SelectionSetNode = {
+    kind: Kind.SELECTION_SET,
+    selections: [selection],
+  };
+  for (const ancestor of Array.from(ancestors).reverse()) {
+    selectionSet = {
+      kind: Kind.SELECTION_SET,
+      selections: [
+        {
+          ...ancestor,
+          ...(allItems &&
+            ancestor.kind === Kind.FIELD && {
+              directives: withoutDirective(
+                ancestor.directives,
+                GraphQLStreamDirective.name,
+              ),
+            }),
+          selectionSet,
+        },
+      ],
+    };
+  }
+
+  return selectionSet;
+}
+
+class IncrementalDocumentSplitter {
+  readonly records: IncrementalRecord[] = [];
+
+  readonly #operation: OperationDefinitionNode;
+  readonly #fragments: FragmentDefinitionNode[];
+  readonly #fragmentMap: Record<string, FragmentDefinitionNode>;
+  readonly #variableValues: Record<string, unknown>;
+
+  constructor(
+    operation: OperationDefinitionNode,
+    fragments: FragmentDefinitionNode[],
+    variableValues: Record<string, unknown>,
+  ) {
+    this.#operation = operation;
+    this.#fragments = fragments;
+    this.#fragmentMap = Object.fromEntries(
+      fragments.map((fragment) => [fragment.name.value, fragment]),
+    );
+    this.#variableValues = variableValues;
+  }
+
+  /**
+   * Split the deferred fragments and the streamed fields out of the
+   * operation, and return the selections of the initial payload.
+   */
+  split(): SelectionSetNode {
+    return this.#splitSelectionSet(
+      this.#operation.selectionSet,
+      [],
+      [],
+      undefined,
+    );
+  }
+
+  /**
+   * Get a document of the operation with other selections.
+   */
+  document(selections: SelectionNode[]): DocumentNode {
+    return {
+      kind: Kind.DOCUMENT,
+      definitions: [
+        {
+          ...this.#operation,
+          selectionSet: { kind: Kind.SELECTION_SET, selections },
+        },
+        ...this.#fragments,
+      ],
+    };
+  }
+
+  #splitSelectionSet(
+    selectionSet: SelectionSetNode,
+    ancestors: AncestorNode[],
+    path: string[],
+    parent: IncrementalRecord | undefined,
+  ): SelectionSetNode {
+    let hasTypeCondition = false;
+    const selections = selectionSet.selections.flatMap(
+      (node): SelectionNode[] => {
+        if (!shouldIncludeNode(node, this.#variableValues)) {
+          return [];
+        }
+
+        if (node.kind === Kind.FIELD) {
+          return [this.#splitField(node, ancestors, path, parent)];
+        }
+
+        let fragment: InlineFragmentNode;
+        if (node.kind === Kind.FRAGMENT_SPREAD) {
+          const definition = this.#fragmentMap[node.name.value];
+          if (!definition) {
+            throw new Error(`missing fragment definition: ${node.name.value}`);
+          }
+
+          // fragments are inlined since their contents may differ depending
+          // on where they are spread
+          fragment = {
+            kind: Kind.INLINE_FRAGMENT,
+            typeCondition: definition.typeCondition,
+            directives: node.directives,
+            selectionSet: definition.selectionSet,
+          };
+        } else {
+          fragment = node;
+        }
+
+        if (fragment.typeCondition) {
+          hasTypeCondition = true;
+        }
+
+        const defer = getDirectiveValues(
+          GraphQLDeferDirective,
+          fragment,
+          this.#variableValues,
+        );
+        if (!defer || defer.if === false) {
+          return [
+            {
+              ...fragment,
+              selectionSet: this.#splitSelectionSet(
+                fragment.selectionSet,
+                [...ancestors, fragment],
+                path,
+                parent,
+              ),
+            },
+          ];
+        }
+
+        const record: IncrementalRecord = {
+          kind: "defer",
+          label: defer.label as string | undefined,
+          path,
+          parent,
+          ancestors,
+        };
+        this.records.push(record);
+
+        const deferredFragment: InlineFragmentNode = {
+          ...fragment,
+          directives: withoutDirective(
+            fragment.directives,
+            GraphQLDeferDirective.name,
+          ),
+        };
+        record.fragment = {
+          ...deferredFragment,
+          selectionSet: this.#splitSelectionSet(
+            fragment.selectionSet,
+            [...ancestors, deferredFragment],
+            path,
+            record,
+          ),
+        };
+
+        return [];
+      },
+    );
+
+    return {
+      ...selectionSet,
+      selections: hasTypeCondition
+        ? [...selections, typenameField]
+        : selections,
+    };
+  }
+
+  #splitField(
+    node: FieldNode,
+    ancestors: AncestorNode[],
+    path: string[],
+    parent: IncrementalRecord | undefined,
+  ): FieldNode {
+    const fieldPath = [...path, (node.alias ?? node.name).value];
+    const field: FieldNode = node.selectionSet
+      ? {
+          ...node,
+          selectionSet: this.#splitSelectionSet(
+            node.selectionSet,
+            [...ancestors, node],
+            fieldPath,
+            parent,
+          ),
+        }
+      : node;
+
+    const stream = getDirectiveValues(
+      GraphQLStreamDirective,
+      node,
+      this.#variableValues,
+    );
+    if (stream && stream.if !== false) {
+      this.records.push({
+        kind: "stream",
+        label: stream.label as string | undefined,
+        path: fieldPath,
+        parent,
+        ancestors,
+        field: {
+          ...field,
+          directives: withoutDirective(
+            field.directives,
+            GraphQLStreamDirective.name,
+          ),
+        },
+      });
+    }
+
+    return field;
+  }
+}
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+function fragmentApplies(
+  schema: GraphQLSchema,
+  fragment: InlineFragmentNode,
+  object: Record<string, unknown>,
+): boolean {
+  const typename = object[typenameAlias];
+  if (!fragment.typeCondition || typeof typename !== "string") {
+    return true;
+  }
+
+  const conditionType = schema.getType(fragment.typeCondition.name.value);
+  const objectType = schema.getType(typename);
+  return (
+    conditionType === objectType ||
+    (isAbstractType(conditionType) &&
+      isObjectType(objectType) &&
+      schema.isSubType(conditionType, objectType))
+  );
+}
+
+function mergeProjections(a: unknown, b: unknown): unknown {
+  if (Array.isArray(a) && Array.isArray(b)) {
+    return a.map((item, i) => mergeProjections(item, b[i]));
+  }
+
+  if (isObject(a) && isObject(b)) {
+    const merged = { ...a };
+    for (const [key, value] of Object.entries(b)) {
+      merged[key] =
+        key in merged ? mergeProjections(merged[key], value) : value;
+    }
+
+    return merged;
+  }
+
+  return b;
+}
+
+/**
+ * Copy a validated value without the `__typename` fields of type conditions.
+ */
+function withoutTypenames(value: unknown): unknown {
+  if (Array.isArray(value)) {
+    return value.map(withoutTypenames);
+  }
+
+  if (!isObject(value)) {
+    return value;
+  }
+
+  return Object.fromEntries(
+    Object.entries(value)
+      .filter(([key]) => key !== typenameAlias)
+      .map(([key, fieldValue]) => [key, withoutTypenames(fieldValue)]),
+  );
+}
+
+/**
+ * Find every object that a deferred fragment applies to, descending into
+ * lists along the way.
+ */
+function findFragmentInstances(
+  schema: GraphQLSchema,
+  value: unknown,
+  ancestors: ReadonlyArray<AncestorNode>,
+  fragment: InlineFragmentNode,
+  path: Array<string | number>,
+): Array<Array<string | number>> {
+  if (Array.isArray(value)) {
+    return value.flatMap((item, i) =>
+      findFragmentInstances(schema, item, ancestors, fragment, [...path, i]),
+    );
+  }
+
+  if (!isObject(value)) {
+    return [];
+  }
+
+  const [ancestor, ...rest] = ancestors;
+  if (!ancestor) {
+    return fragmentApplies(schema, fragment, value) ? [path] : [];
+  }
+
+  if (ancestor.kind === Kind.INLINE_FRAGMENT) {
+    return fragmentApplies(schema, ancestor, value)
+      ? findFragmentInstances(schema, value, rest, fragment, path)
+      : [];
+  }
+
+  const key = (ancestor.alias ?? ancestor.name).value;
+  return findFragmentInstances(schema, value[key], rest, fragment, [
+    ...path,
+    key,
+  ]);
+}
+
+/**
+ * Whether the path leads through the data, or ends below a null that the
+ * error at the path caused.
+ */
+function coversPath(
+  data: unknown,
+  path: ReadonlyArray<string | number>,
+): boolean {
+  let value = data;
+  for (const key of path) {
+    if (typeof value !== "object" || value === null) {
+      return true;
+    }
+
+    if (!(key in value)) {
+      return false;
+    }
+
+    value = (value as any)[key];
+  }
+
+  return true;
+}
+
+/**
+ * Whether the result has the field that failed, or is below it.
+ */
+function coversError(
+  result: IncrementalResult,
+  errorPath: ReadonlyArray<string | number>,
+): boolean {
+  if ("items" in result) {
+    const listPath = result.path.slice(0, -1);
+    const start = result.path[result.path.length - 1] as number;
+    const index = errorPath[listPath.length];
+    return (
+      (isPathPrefix(listPath, errorPath) &&
+        typeof index === "number" &&
+        index >= start &&
+        coversPath(result.items, [
+          index - start,
+          ...errorPath.slice(listPath.length + 1),
+        ])) ||
+      isPathPrefix(errorPath, listPath)
+    );
+  }
+
+  return (
+    (isPathPrefix(result.path, errorPath) &&
+      coversPath(
+        (result as IncrementalDeferResult).data,
+        errorPath.slice(result.path.length),
+      )) ||
+    isPathPrefix(errorPath, result.path)
+  );
+}
+
+/**
+ * Give every error to the results that cover it, and return the errors that
+ * no result covers.
+ */
+function assignErrors(
+  results: IncrementalResult[],
+  errors: ReadonlyArray<GraphQLError>,
+): GraphQLError[] {
+  const unassigned: GraphQLError[] = [];
+  for (const error of errors) {
+    const errorPath = error.path;
+    const owners = errorPath
+      ? results.filter((result) => coversError(result, errorPath))
+      : [];
+    for (const owner of owners) {
+      owner.errors = [...(owner.errors ?? []), error];
+    }
+
+    if (!owners.length) {
+      unassigned.push(error);
+    }
+  }
+
+  return unassigned;
+}
+
+function isSamePath(
+  a: ReadonlyArray<string | number>,
+  b: ReadonlyArray<string | number>,
+): boolean {
+  return a.length === b.length && isPathPrefix(a, b);
+}
+
+function getAt(value: unknown, path: ReadonlyArray<string | number>): unknown {
+  for (const key of path) {
+    if (typeof value !== "object" || value === null) {
+      return undefined;
+    }
+
+    value = (value as any)[key];
+  }
+
+  return value;
+}
+
+/**
+ * The deferred fragments and streamed lists that the next phase resolves.
+ */
+interface Plan {
+  instances: Array<[IncrementalRecord, Array<string | number>]>;
+  streams: Array<[IncrementalRecord, Array<string | number>, number]>;
+}
+
+interface PhaseOutcome {
+  result: SubsequentIncrementalExecutionResult;
+  next?: Promise<PhaseOutcome>;
+}
+
+/**
+ * Delivers the deferred fragments and the streamed items of an incremental
+ * execution, phase by phase.
+ */
+class IncrementalDelivery {
+  readonly #schema: GraphQLSchema;
+  readonly #executor: IncrementalExecutor;
+  readonly #splitter: IncrementalDocumentSplitter;
+  readonly #inline: boolean;
+
+  /**
+   * The data delivered so far, with the `__typename` fields of type
+   * conditions, in which the objects of deferred fragments are found.
+   */
+  #data: unknown;
+  readonly #delivered = new Map<
+    IncrementalRecord,
+    Array<ReadonlyArray<string | number>>
+  >();
+
+  constructor(
+    schema: GraphQLSchema,
+    executor: IncrementalExecutor,
+    splitter: IncrementalDocumentSplitter,
+    inline: boolean,
+    data: unknown,
+  ) {
+    this.#schema = schema;
+    this.#executor = executor;
+    this.#splitter = splitter;
+    this.#inline = inline;
+    this.#data = data;
+  }
+
+  /**
+   * Validate the deferred fragments and the streamed items that the phase
+   * resolved. Inline phases resolved the fragments deferred within them too.
+   */
+  async getResults(
+    phase: IncrementalPhase,
+    plan: Plan,
+  ): Promise<IncrementalResult[]> {
+    const results: IncrementalResult[] = [];
+    for (
+      let instances = this.#inline ? this.#findInstances() : plan.instances;
+      instances.length;
+      instances = this.#inline ? this.#findInstances() : []
+    ) {
+      for (const [record, path] of instances) {
+        this.#delivered.set(record, [
+          ...(this.#delivered.get(record) ?? []),
+          path,
+        ]);
+        const [data, errors] = await phase.getDeferredResult(
+          path,
+          record.ancestors,
+          record.fragment!,
+        );
+        if (data) {
+          this.#mergeData(path, data);
+        }
+
+        results.push({
+          data: withoutTypenames(data) as Record<string, unknown> | null,
+          path,
+          ...(record.label !== undefined && { label: record.label }),
+          ...(errors.length ? { errors } : {}),
+        });
+      }
+    }
+
+    for (const [record, path, start] of plan.streams) {
+      const [items, errors] = await phase.getStreamResult(
+        path,
+        record.ancestors,
+        record.field!,
+        start,
+      );
+      results.push({
+        items,
+        path: [...path, start],
+        ...(record.label !== undefined && { label: record.label }),
+        ...(errors.length ? { errors } : {}),
+      });
+    }
+
+    results.push(...(await phase.getStreamedItems()));
+    return results.map((result) => {
+      if (!("items" in result)) {
+        return result;
+      }
+
+      const items = getAt(this.#data, result.path.slice(0, -1));
+      if (Array.isArray(items) && result.items) {
+        items.splice(
+          result.path[result.path.length - 1] as number,
+          result.items.length,
+          ...result.items,
+        );
+      }
+
+      return { ...result, items: withoutTypenames(result.items) as unknown[] };
+    });
+  }
+
+  /**
+   * Plan the next phase, with the objects of deferred fragments that were
+   * found in the data delivered so far and the streamed lists that the phase
+   * held back.
+   */
+  plan(phase: IncrementalPhase): Plan | undefined {
+    if (this.#inline) {
+      return undefined;
+    }
+
+    const records = this.#splitter.records;
+    const plan: Plan = {
+      instances: this.#findInstances(),
+      streams: phase.heldBackStreams.flatMap(
+        ([path, start]): Plan["streams"] => {
+          const keys = path.filter((key) => typeof key === "string");
+          const record = records.find(
+            (record) =>
+              record.kind === "stream" && isSamePath(record.path, keys),
+          );
+          return record ? [[record, path, start]] : [];
+        },
+      ),
+    };
+
+    return plan.instances.length || plan.streams.length ? plan : undefined;
+  }
+
+  /**
+   * Execute the planned phase and start the next one as soon as it's done.
+   */
+  async executePhase(
+    previousPhase: IncrementalPhase,
+    plan: Plan,
+  ): Promise<PhaseOutcome> {
+    let phase: IncrementalPhase | undefined;
+    let results: IncrementalResult[];
+    try {
+      phase = await this.#executor.executePhase(
+        this.#splitter.document(
+          Array.from(
+            new Set([
+              ...plan.instances.map(([record]) => record),
+              ...plan.streams.map(([record]) => record),
+            ]),
+            (record) =>
+              wrapSelection(
+                record.ancestors,
+                record.fragment ?? record.field!,
+                true,
+              ).selections[0],
+          ),
+        ),
+        "phased",
+        previousPhase,
+      );
+      results = await this.getResults(phase, plan);
+    } catch (err) {
+      phase?.finishPhase();
+      const error =
+        err instanceof GraphQLError
+          ? err
+          : new GraphQLError((err as Error).message, {
+              originalError: err as Error,
+            });
+      return {
+        result: {
+          incremental: [
+            ...plan.instances.map(([record, path]) => ({
+              data: null,
+              path,
+              ...(record.label !== undefined && { label: record.label }),
+              errors: [error],
+            })),
+            ...plan.streams.map(([record, path, start]) => ({
+              items: null,
+              path: [...path, start],
+              ...(record.label !== undefined && { label: record.label }),
+              errors: [error],
+            })),
+          ],
+          hasNext: false,
+        },
+      };
+    }
+
+    const unassigned = assignErrors(results, phase.errors);
+    if (unassigned.length && results.length) {
+      results[0] = {
+        ...results[0],
+        errors: [...(results[0].errors ?? []), ...unassigned],
+      };
+    }
+
+    const extensions = phase.finishPhase();
+    const nextPlan = this.plan(phase);
+    const next = nextPlan && this.executePhase(phase, nextPlan);
+    return {
+      result: {
+        ...(results.length ? { incremental: results } : {}),
+        hasNext: next !== undefined,
+        ...(!next && extensions && { extensions }),
+      },
+      next,
+    };
+  }
+
+  /**
+   * Find the objects of deferred fragments in the data delivered so far,
+   * which weren't delivered yet and whose parent fragments were.
+   */
+  #findInstances(): Plan["instances"] {
+    return this.#splitter.records.flatMap((record) => {
+      if (record.kind !== "defer") {
+        return [];
+      }
+
+      const delivered = this.#delivered.get(record) ?? [];
+      const parentDelivered =
+        record.parent && this.#delivered.get(record.parent);
+      return findFragmentInstances(
+        this.#schema,
+        this.#data,
+        record.ancestors,
+        record.fragment!,
+        [],
+      )
+        .filter(
+          (path) =>
+            !delivered.some((other) => isSamePath(other, path)) &&
+            (!record.parent ||
+              parentDelivered?.some((parentPath) =>
+                isPathPrefix(parentPath, path),
+              )),
+        )
+        .map((path): [IncrementalRecord, Array<string | number>] => [
+          record,
+          path,
+        ]);
+    });
+  }
+
+  #mergeData(
+    path: ReadonlyArray<string | number>,
+    data: Record<string, unknown>,
+  ): void {
+    if (!path.length) {
+      this.#data = mergeProjections(this.#data, data);
+      return;
+    }
+
+    const parent = getAt(this.#data, path.slice(0, -1));
+    const key = path[path.length - 1];
+    if (typeof parent === "object" && parent !== null) {
+      (parent as any)[key] = mergeProjections((parent as any)[key], data);
+    }
+  }
+}
+
+async function* yieldSubsequentResults(
+  incremental: IncrementalResult[],
+  next: Promise<PhaseOutcome> | undefined,
+): AsyncGenerator<SubsequentIncrementalExecutionResult, void, void> {
+  if (incremental.length) {
+    yield { incremental, hasNext: next !== undefined };
+  }
+
+  while (next) {
+    const outcome: PhaseOutcome = await next;
+    next = outcome.next;
+    yield outcome.result;
+  }
+}
+
+/**
+ * Execute an operation that may contain `@defer` and `@stream` directives.
+ *
+ * The initial payload is resolved first and returned as soon as its stages
+ * finish. The deferred fragments and the streamed items are resolved by later
+ * phases with stages and backend calls of their own, each phase as soon as
+ * the one before it is done, and delivered as subsequent results. Later
+ * phases reuse the values that the earlier ones resolved instead of calling
+ * their resolvers again. Mutations are resolved in one phase though, since
+ * their root fields must not run again, and only their delivery is split.
+ */
+export async function executeIncrementally<TData>(
+  args: ExecutionArgs,
+  executor: IncrementalExecutor,
+): Promise<ExecutionResult<TData> | IncrementalExecutionResults<TData>> {
+  const [operation, fragments] = extractOperationAndFragments(
+    args.document,
+    args.operationName ?? undefined,
+  );
+  const splitter = new IncrementalDocumentSplitter(
+    operation,
+    fragments,
+    coerceVariableValues(
+      args.schema,
+      operation.variableDefinitions,
+      args.variableValues,
+    ),
+  );
+  const initialSelectionSet = splitter.split();
+  const { records } = splitter;
+  if (!records.length) {
+    return (await executor.execute(args)) as ExecutionResult<TData>;
+  }
+
+  const inline = operation.operation !== OperationTypeNode.QUERY;
+  const phase = await executor.executePhase(
+    splitter.document(
+      inline
+        ? [
+            ...initialSelectionSet.selections,
+            ...records.flatMap((record) =>
+              record.fragment
+                ? wrapSelection(record.ancestors, record.fragment, false)
+                    .selections
+                : [],
+            ),
+          ]
+        : [...initialSelectionSet.selections],
+    ),
+    inline ? "inline" : "phased",
+  );
+  const { errors, ...result } = await phase.getResult(initialSelectionSet);
+  if (!result.data) {
+    return { ...result, ...(errors && { errors }) } as ExecutionResult<TData>;
+  }
+
+  // copied before the deferred fragments are merged into the result
+  const data = withoutTypenames(result.data);
+  const delivery = new IncrementalDelivery(
+    args.schema,
+    executor,
+    splitter,
+    inline,
+    result.data,
+  );
+  const incremental = await delivery.getResults(phase, {
+    instances: [],
+    streams: [],
+  });
+
+  // errors go with the payload that has the field that failed, which the
+  // initial payload always does when it has the path of the error
+  const initialErrors: GraphQLError[] = [];
+  const incrementalErrors: GraphQLError[] = [];
+  for (const error of errors ?? []) {
+    (error.path && !coversPath(data, error.path)
+      ? incrementalErrors
+      : initialErrors
+    ).push(error);
+  }
+  initialErrors.push(...assignErrors(incremental, incrementalErrors));
+
+  const plan = delivery.plan(phase);
+  const next = plan && delivery.executePhase(phase, plan);
+  return {
+    initialResult: {
+      ...result,
+      data: data as TData,
+      ...(initialErrors.length ? { errors: initialErrors } : {}),
+      hasNext: incremental.length > 0 || next !== undefined,
+    },
+    subsequentResults: yieldSubsequentResults(incremental, next),
+  };
+}
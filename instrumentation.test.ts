@@ -0,0 +1,171 @@
+import { describe, expect, test } from "@jest/globals";
+import { Client } from "fauna";
+import {
+  type GraphQLFieldConfig,
+  GraphQLInt,
+  GraphQLObjectType,
+  GraphQLSchema,
+  parse,
+} from "graphql";
+import createExecutorBackend, { fql } from "./backends/faunadbV10";
+import {
+  type OpenTelemetrySpan,
+  type OpenTelemetryTracer,
+  createExecuteFn,
+} from "./executor";
+
+const client = new Client({
+  endpoint: new URL("http://localhost:8443"),
+  secret: "secret",
+
+  // NOTE: this stops jest from complaining about
+  //       not exiting "one second after the test run has completed".
+  http2_session_idle_ms: 100,
+});
+
+function makeSchema(fields: Record<string, GraphQLFieldConfig<any, any, any>>) {
+  return new GraphQLSchema({
+    query: new GraphQLObjectType({
+      name: "Query",
+      fields,
+    }),
+  });
+}
+
+describe("instrumentation", () => {
+  interface RecordedSpan extends OpenTelemetrySpan {
+    name: string;
+    attributes: Record<string, unknown>;
+    parent?: RecordedSpan;
+    status?: { code: number; message?: string };
+    ended: boolean;
+  }
+
+  // a minimal stand-in for an in-memory span exporter
+  function createTracer(spans: RecordedSpan[]): OpenTelemetryTracer {
+    return {
+      startSpan(name, options, parent) {
+        const span: RecordedSpan = {
+          name,
+          attributes: { ...options?.attributes },
+          parent,
+          ended: false,
+          setAttribute(key, value) {
+            span.attributes[key] = value;
+          },
+          recordException() {},
+          setStatus(status) {
+            span.status = status;
+          },
+          end() {
+            span.ended = true;
+          },
+        };
+        spans.push(span);
+        return span;
+      },
+    };
+  }
+
+  const schema = makeSchema({
+    literal: { type: GraphQLInt, resolve: () => 1 },
+    deferred: { type: GraphQLInt, resolve: () => fql`2` },
+  });
+
+  test("spans", async () => {
+    const spans: RecordedSpan[] = [];
+    const executeFn = createExecuteFn(
+      createExecutorBackend(client, {
+        queryMiddleware: () => async () => ({ data: [2] }) as any,
+      }),
+      {
+        instrumentation: {
+          tracer: createTracer(spans),
+          setSpan: (span) => span,
+          resolverSpans: true,
+        },
+      },
+    );
+
+    expect(
+      await executeFn({
+        schema,
+        document: parse("query Named { literal deferred }"),
+      }),
+    ).toStrictEqual({ data: { literal: 1, deferred: 2 } });
+
+    expect(spans.every((span) => span.ended)).toBe(true);
+    expect(
+      spans.map(({ name, attributes, parent }) => [
+        name,
+        attributes,
+        parent?.name,
+      ]),
+    ).toStrictEqual([
+      [
+        "graphql.execute",
+        {
+          "graphql.operation.type": "query",
+          "graphql.operation.name": "Named",
+        },
+        undefined,
+      ],
+      [
+        "graphql.stage",
+        {
+          "graphql.stage.index": 0,
+          "graphql.stage.field_count": 2,
+          "graphql.stage.deferred_value_count": 1,
+        },
+        "graphql.execute",
+      ],
+      [
+        "graphql.resolve",
+        {
+          "graphql.field.coordinate": "Query.literal",
+          "graphql.field.path": "literal",
+        },
+        "graphql.stage",
+      ],
+      [
+        "graphql.resolve",
+        {
+          "graphql.field.coordinate": "Query.deferred",
+          "graphql.field.path": "deferred",
+        },
+        "graphql.stage",
+      ],
+      [
+        "graphql.backend",
+        {
+          "graphql.deferred_value.count": 1,
+          "graphql.deferred_value.paths": ["deferred"],
+        },
+        "graphql.stage",
+      ],
+    ]);
+  });
+
+  test("errors", async () => {
+    const spans: RecordedSpan[] = [];
+    const executeFn = createExecuteFn(
+      createExecutorBackend(client, {
+        queryMiddleware: () => async () => {
+          throw new Error("boom");
+        },
+      }),
+      { instrumentation: { tracer: createTracer(spans) } },
+    );
+
+    expect(
+      await executeFn({ schema, document: parse("{ deferred }") }),
+    ).toMatchObject({ errors: [{ message: "boom" }] });
+    expect(
+      spans.map(({ name, status, ended }) => [name, status?.code, ended]),
+    ).toStrictEqual([
+      ["graphql.execute", 2, true],
+      ["graphql.stage", undefined, true],
+      ["graphql.backend", 2, true],
+    ]);
+  });
+});
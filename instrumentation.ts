@@ -0,0 +1,183 @@
+import type { OperationDefinitionNode } from "graphql";
+import { isPromiseLike } from "./utils";
+
+export type SpanAttributeValue = string | number | boolean | string[];
+
+export type SpanAttributes = Record<string, SpanAttributeValue | undefined>;
+
+/**
+ * The subset of an OpenTelemetry `Span` that is used by the executor.
+ */
+export interface OpenTelemetrySpan {
+  setAttribute(key: string, value: SpanAttributeValue): unknown;
+  recordException(exception: Error | string): void;
+  setStatus(status: { code: number; message?: string }): unknown;
+  end(): void;
+}
+
+/**
+ * The subset of an OpenTelemetry `Tracer` that is used by the executor.
+ */
+export interface OpenTelemetryTracer {
+  startSpan(
+    name: string,
+    options?: { attributes?: SpanAttributes },
+    context?: any,
+  ): OpenTelemetrySpan;
+}
+
+export interface InstrumentationOptions {
+  tracer: OpenTelemetryTracer;
+
+  /**
+   * Create a context in which the span is active, so that spans started with
+   * it become its children. This is usually
+   * `(span) => trace.setSpan(context.active(), span)`. Spans are started in
+   * the tracer's default context when it is omitted.
+   */
+  setSpan?: (span: OpenTelemetrySpan) => unknown;
+
+  /**
+   * Whether to create a span for every field resolver call.
+   */
+  resolverSpans?: boolean;
+}
+
+// SpanStatusCode.ERROR
+const ERROR_STATUS_CODE = 2;
+
+function recordError(span: OpenTelemetrySpan, error: unknown): void {
+  const message = (error as any)?.message ?? String(error);
+  span.recordException(error instanceof Error ? error : message);
+  span.setStatus({ code: ERROR_STATUS_CODE, message });
+}
+
+/**
+ * Creates the spans of a single execution: one for the execution itself, one
+ * per stage, one per backend call and optionally one per resolver call.
+ */
+export class ExecutionSpans {
+  readonly #options: InstrumentationOptions;
+  readonly #executionSpan: OpenTelemetrySpan;
+  #stageSpan: OpenTelemetrySpan | undefined;
+
+  constructor(
+    options: InstrumentationOptions,
+    operation: OperationDefinitionNode,
+  ) {
+    this.#options = options;
+    this.#executionSpan = options.tracer.startSpan("graphql.execute", {
+      attributes: {
+        "graphql.operation.type": operation.operation,
+        "graphql.operation.name": operation.name?.value,
+      },
+    });
+  }
+
+  #startSpan(name: string, attributes: SpanAttributes): OpenTelemetrySpan {
+    const parent = this.#stageSpan ?? this.#executionSpan;
+    return this.#options.tracer.startSpan(
+      name,
+      { attributes },
+      this.#options.setSpan?.(parent),
+    );
+  }
+
+  #withSpan<T>(name: string, attributes: SpanAttributes, fn: () => T): T {
+    const span = this.#startSpan(name, attributes);
+
+    let result: T;
+    try {
+      result = fn();
+    } catch (e) {
+      recordError(span, e);
+      span.end();
+      throw e;
+    }
+
+    if (isPromiseLike(result)) {
+      return Promise.resolve(result).then(
+        (value) => {
+          span.end();
+          return value;
+        },
+        (e) => {
+          recordError(span, e);
+          span.end();
+          throw e;
+        },
+      ) as T;
+    }
+
+    span.end();
+    return result;
+  }
+
+  public startStage(stage: number, fieldCount: number): void {
+    this.endStage();
+    this.#stageSpan = this.#startSpan("graphql.stage", {
+      "graphql.stage.index": stage,
+      "graphql.stage.field_count": fieldCount,
+    });
+  }
+
+  public endStage(): void {
+    this.#stageSpan?.end();
+    this.#stageSpan = undefined;
+  }
+
+  public backendCall<T>(
+    paths: Array<ReadonlyArray<string | number>>,
+    fn: () => T,
+  ): T {
+    this.#stageSpan?.setAttribute(
+      "graphql.stage.deferred_value_count",
+      paths.length,
+    );
+    return this.#withSpan(
+      "graphql.backend",
+      {
+        "graphql.deferred_value.count": paths.length,
+        "graphql.deferred_value.paths": paths.map((path) => path.join(".")),
+      },
+      fn,
+    );
+  }
+
+  public resolver<T>(
+    coordinate: string,
+    path: ReadonlyArray<string | number>,
+    fn: () => T,
+  ): T {
+    if (!this.#options.resolverSpans) {
+      return fn();
+    }
+
+    return this.#withSpan(
+      "graphql.resolve",
+      {
+        "graphql.field.coordinate": coordinate,
+        "graphql.field.path": path.join("."),
+      },
+      fn,
+    );
+  }
+
+  public end(errors?: ReadonlyArray<unknown>): void {
+    this.endStage();
+    if (errors?.length) {
+      for (const error of errors) {
+        this.#executionSpan.recordException(
+          error instanceof Error ? error : String(error),
+        );
+      }
+
+      this.#executionSpan.setStatus({
+        code: ERROR_STATUS_CODE,
+        message: (errors[0] as any)?.message ?? String(errors[0]),
+      });
+    }
+
+    this.#executionSpan.end();
+  }
+}
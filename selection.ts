@@ -1,14 +1,18 @@
-import type {
-  FieldNode,
-  FragmentDefinitionNode,
-  FragmentSpreadNode,
-  GraphQLInterfaceType,
-  GraphQLObjectType,
-  GraphQLSchema,
-  GraphQLUnionType,
-  InlineFragmentNode,
-  NamedTypeNode,
-  SelectionNode,
+import {
+  type DirectiveNode,
+  type FieldNode,
+  type FragmentDefinitionNode,
+  type FragmentSpreadNode,
+  GraphQLIncludeDirective,
+  type GraphQLInterfaceType,
+  type GraphQLObjectType,
+  type GraphQLSchema,
+  GraphQLSkipDirective,
+  type GraphQLUnionType,
+  type InlineFragmentNode,
+  type NamedTypeNode,
+  type SelectionNode,
+  getDirectiveValues,
 } from "graphql";
 
 export interface FragmentDefinitionMap {
@@ -49,6 +53,38 @@ function satisfiesTypeCondition(
     .some((iface) => satisfiesTypeCondition(unionMap, iface, condition));
 }
 
+/**
+ * Evaluate the `@skip` and `@include` directives on a selection node against
+ * the execution's variable values.
+ */
+export function shouldIncludeNode(
+  node: FieldNode | FragmentSpreadNode | InlineFragmentNode,
+  variableValues: Record<string, unknown>,
+): boolean {
+  const skip = getDirectiveValues(GraphQLSkipDirective, node, variableValues);
+  if (skip?.if === true) {
+    return false;
+  }
+
+  const include = getDirectiveValues(
+    GraphQLIncludeDirective,
+    node,
+    variableValues,
+  );
+  if (include?.if === false) {
+    return false;
+  }
+
+  return true;
+}
+
+function isConditionalDirective(directive: DirectiveNode): boolean {
+  return (
+    directive.name.value === GraphQLSkipDirective.name ||
+    directive.name.value === GraphQLIncludeDirective.name
+  );
+}
+
 /**
  * Deduplicate selection set by merging fields with the same name.
  */
@@ -77,12 +113,14 @@ function dedupeSelection(fieldNodes: FieldNode[]): FieldNode[] {
       );
     }
 
+    // conditional directives have already been evaluated by this point
     const existingDirectives = JSON.stringify(
-      existing.directives,
+      existing.directives?.filter((d) => !isConditionalDirective(d)),
       (key, value) => (key === "loc" ? undefined : value),
     );
-    const nodeDirectives = JSON.stringify(node.directives, (key, value) =>
-      key === "loc" ? undefined : value,
+    const nodeDirectives = JSON.stringify(
+      node.directives?.filter((d) => !isConditionalDirective(d)),
+      (key, value) => (key === "loc" ? undefined : value),
     );
     if (existingDirectives !== nodeDirectives) {
       throw new Error(
@@ -114,16 +152,21 @@ export function selectionFields(
   unionMap: Record<string, GraphQLUnionType>,
   selections: ReadonlyArray<SelectionNode>,
   type: GraphQLObjectType,
+  variableValues: Record<string, unknown>,
 ): FieldNode[] {
   return dedupeSelection(
     selections.flatMap((node): FieldNode[] => {
+      if (!shouldIncludeNode(node, variableValues)) {
+        return [];
+      }
+
       if (isField(node)) {
         return [node];
       }
 
       if (isInlineFragment(node)) {
         if (
-          !node.typeCondition ||
+          node.typeCondition &&
           !satisfiesTypeCondition(unionMap, type, node.typeCondition)
         ) {
           return [];
@@ -135,6 +178,7 @@ export function selectionFields(
           unionMap,
           node.selectionSet.selections,
           type,
+          variableValues,
         );
       }
 
@@ -157,6 +201,7 @@ export function selectionFields(
           unionMap,
           fragment.selectionSet.selections,
           type,
+          variableValues,
         );
       }
 
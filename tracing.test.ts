@@ -0,0 +1,87 @@
+import { expect, test } from "@jest/globals";
+import { Client } from "fauna";
+import {
+  type GraphQLFieldConfig,
+  GraphQLInt,
+  GraphQLNonNull,
+  GraphQLObjectType,
+  GraphQLSchema,
+  parse,
+} from "graphql";
+import createExecutorBackend, { fql } from "./backends/faunadbV10";
+import { type TracingExtension, createExecuteFn } from "./executor";
+
+const client = new Client({
+  endpoint: new URL("http://localhost:8443"),
+  secret: "secret",
+
+  // NOTE: this stops jest from complaining about
+  //       not exiting "one second after the test run has completed".
+  http2_session_idle_ms: 100,
+});
+
+function makeSchema(fields: Record<string, GraphQLFieldConfig<any, any, any>>) {
+  return new GraphQLSchema({
+    query: new GraphQLObjectType({
+      name: "Query",
+      fields,
+    }),
+  });
+}
+
+test("tracing", async () => {
+  const executeFn = createExecuteFn(
+    createExecutorBackend(client, {
+      queryMiddleware: () => async () => ({ data: [2] }) as any,
+    }),
+    { tracing: true },
+  );
+
+  const result = await executeFn({
+    schema: makeSchema({
+      literal: { type: GraphQLInt, resolve: () => 1 },
+      deferred: {
+        type: new GraphQLNonNull(GraphQLInt),
+        resolve: () => fql`2`,
+      },
+    }),
+    document: parse("{ literal deferred }"),
+  });
+  expect(result.data).toStrictEqual({ literal: 1, deferred: 2 });
+
+  const tracing = result.extensions!.tracing as TracingExtension;
+  expect(tracing.version).toBe(1);
+  expect(Date.parse(tracing.endTime)).toBeGreaterThanOrEqual(
+    Date.parse(tracing.startTime),
+  );
+  expect(tracing.duration).toBeGreaterThan(0);
+  expect(
+    tracing.execution.resolvers.map(({ startOffset, duration, ...rest }) => {
+      expect(startOffset).toBeGreaterThanOrEqual(0);
+      expect(duration).toBeGreaterThanOrEqual(0);
+      return rest;
+    }),
+  ).toStrictEqual([
+    {
+      path: ["literal"],
+      parentType: "Query",
+      fieldName: "literal",
+      returnType: "Int",
+    },
+    {
+      path: ["deferred"],
+      parentType: "Query",
+      fieldName: "deferred",
+      returnType: "Int!",
+    },
+  ]);
+  expect(
+    tracing.execution.stages.map(({ stage, phase }) => [stage, phase]),
+  ).toStrictEqual([
+    [0, "resolve"],
+    [0, "evaluate"],
+  ]);
+  expect(
+    tracing.execution.backendCalls.map(({ paths }) => paths),
+  ).toStrictEqual([[["deferred"]]]);
+});
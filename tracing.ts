@@ -0,0 +1,131 @@
+import type { GraphQLObjectType, GraphQLOutputType } from "graphql";
+import { isPromiseLike } from "./utils";
+
+/**
+ * Timings follow the apollo tracing format, offsets and durations are in
+ * nanoseconds relative to the start of the execution.
+ */
+export interface ResolverTrace {
+  path: ReadonlyArray<string | number>;
+  parentType: string;
+  fieldName: string;
+  returnType: string;
+  startOffset: number;
+  duration: number;
+}
+
+export type StagePhase = "resolve" | "evaluate" | "restage";
+
+export interface StagePhaseTrace {
+  stage: number;
+  phase: StagePhase;
+  startOffset: number;
+  duration: number;
+}
+
+export interface BackendCallTrace {
+  paths: Array<ReadonlyArray<string | number>>;
+  startOffset: number;
+  duration: number;
+}
+
+export interface TracingExtension {
+  version: 1;
+  startTime: string;
+  endTime: string;
+  duration: number;
+  execution: {
+    resolvers: ResolverTrace[];
+    stages: StagePhaseTrace[];
+    backendCalls: BackendCallTrace[];
+  };
+}
+
+function now(): number {
+  return performance.now() * 1e6;
+}
+
+/**
+ * Collects the timings of a single execution.
+ */
+export class ExecutionTracing {
+  readonly #startTime = new Date();
+  readonly #start = now();
+
+  readonly #resolvers: ResolverTrace[] = [];
+  readonly #stages: StagePhaseTrace[] = [];
+  readonly #backendCalls: BackendCallTrace[] = [];
+
+  #time<T>(
+    fn: () => T,
+    record: (startOffset: number, duration: number) => void,
+  ): T {
+    const start = now();
+    const done = () =>
+      record(Math.round(start - this.#start), Math.round(now() - start));
+
+    let result: T;
+    try {
+      result = fn();
+    } catch (e) {
+      done();
+      throw e;
+    }
+
+    if (isPromiseLike(result)) {
+      return Promise.resolve(result).finally(done) as T;
+    }
+
+    done();
+    return result;
+  }
+
+  public resolver<T>(
+    path: ReadonlyArray<string | number>,
+    parentType: GraphQLObjectType,
+    fieldName: string,
+    returnType: GraphQLOutputType,
+    fn: () => T,
+  ): T {
+    return this.#time(fn, (startOffset, duration) =>
+      this.#resolvers.push({
+        path,
+        parentType: parentType.name,
+        fieldName,
+        returnType: String(returnType),
+        startOffset,
+        duration,
+      }),
+    );
+  }
+
+  public phase<T>(stage: number, phase: StagePhase, fn: () => T): T {
+    return this.#time(fn, (startOffset, duration) =>
+      this.#stages.push({ stage, phase, startOffset, duration }),
+    );
+  }
+
+  public backendCall<T>(
+    paths: Array<ReadonlyArray<string | number>>,
+    fn: () => T,
+  ): T {
+    return this.#time(fn, (startOffset, duration) =>
+      this.#backendCalls.push({ paths, startOffset, duration }),
+    );
+  }
+
+  public toJSON(): TracingExtension {
+    const endTime = new Date();
+    return {
+      version: 1,
+      startTime: this.#startTime.toISOString(),
+      endTime: endTime.toISOString(),
+      duration: Math.round(now() - this.#start),
+      execution: {
+        resolvers: this.#resolvers,
+        stages: this.#stages,
+        backendCalls: this.#backendCalls,
+      },
+    };
+  }
+}
@@ -4,6 +4,7 @@ import {
   GraphQLObjectType,
   type GraphQLSchema,
 } from "graphql";
+import type { BackendError } from "./executor";
 
 const implementorsCache = new WeakMap<
   GraphQLInterfaceType,
@@ -86,6 +87,131 @@ export function isNullValue(value: unknown): value is null | undefined {
   return value === null || value === undefined;
 }
 
+/**
+ * Read the `@error` sentinel of a value, which is either the error message
+ * or an object with the message, code, extensions and path of the error.
+ */
+export function getErrorSentinel(value: unknown): BackendError | null {
+  const error = (value as any)?.["@error"];
+  if (error === null || error === undefined) {
+    return null;
+  }
+
+  if (typeof error !== "object") {
+    return { message: String(error) };
+  }
+
+  return {
+    message: String(error.message ?? "Unexpected error."),
+    ...(error.code != null && { code: String(error.code) }),
+    ...(error.extensions != null && { extensions: error.extensions }),
+    ...(Array.isArray(error.path) && { path: error.path }),
+  };
+}
+
+export function isAsyncIterable(
+  value: unknown,
+): value is AsyncIterable<unknown> {
+  return typeof (value as any)?.[Symbol.asyncIterator] === "function";
+}
+
+export function isPromiseLike(value: unknown): value is PromiseLike<unknown> {
+  return typeof (value as any)?.then === "function";
+}
+
+/**
+ * Whether `path` starts with `prefix`, i.e. it is the same path or a path
+ * below it.
+ */
+export function isPathPrefix(
+  prefix: ReadonlyArray<string | number>,
+  path: ReadonlyArray<string | number> | undefined,
+): path is ReadonlyArray<string | number> {
+  return (
+    path !== undefined &&
+    path.length >= prefix.length &&
+    prefix.every((key, i) => path[i] === key)
+  );
+}
+
+export async function* mapAsyncIterable<T, U>(
+  iterable: AsyncIterable<T>,
+  fn: (value: T) => U | PromiseLike<U>,
+): AsyncGenerator<U, void, void> {
+  for await (const value of iterable) {
+    yield await fn(value);
+  }
+}
+
+const maxTimeoutDelay = 2 ** 31 - 1;
+
+/**
+ * Combine an abort signal and a deadline into one signal. The returned
+ * function must be called once the signal is no longer needed.
+ */
+export function withDeadline(
+  signal: AbortSignal | undefined,
+  deadline: Date | number | undefined,
+): [AbortSignal | undefined, () => void] {
+  if (deadline === undefined) {
+    return [signal, () => {}];
+  }
+
+  const controller = new AbortController();
+  const abort = () => controller.abort(signal?.reason);
+  if (signal?.aborted) {
+    abort();
+  } else {
+    signal?.addEventListener("abort", abort, { once: true });
+  }
+
+  // longer delays overflow and fire at once, and no execution waits that long
+  const delay = Math.max(0, Number(deadline) - Date.now());
+  const timeout =
+    delay > maxTimeoutDelay
+      ? undefined
+      : setTimeout(
+          () => controller.abort(new Error("Execution deadline exceeded")),
+          delay,
+        );
+
+  return [
+    controller.signal,
+    () => {
+      clearTimeout(timeout);
+      signal?.removeEventListener("abort", abort);
+    },
+  ];
+}
+
+/**
+ * Reject with the signal's reason as soon as it is aborted, without waiting
+ * for the promise to settle.
+ */
+export function raceAbortSignal<T>(
+  promise: Promise<T>,
+  signal: AbortSignal | undefined,
+): Promise<T> {
+  if (!signal) {
+    return promise;
+  }
+
+  return new Promise((resolve, reject) => {
+    const abort = () => reject(signal.reason);
+    if (signal.aborted) {
+      // a later rejection of the promise must not go unhandled
+      promise.catch(() => {});
+      abort();
+      return;
+    }
+
+    signal.addEventListener("abort", abort, { once: true });
+    promise
+      .then(resolve, reject)
+      .finally(() => signal.removeEventListener("abort", abort));
+  });
+}
+
 export type Middleware<F extends (...args: any[]) => any> = {
   (next: F): F;
 };
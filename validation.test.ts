@@ -0,0 +1,104 @@
+import { describe, expect, test } from "@jest/globals";
+import { Client } from "fauna";
+import {
+  GraphQLError,
+  type GraphQLFieldConfig,
+  GraphQLObjectType,
+  GraphQLSchema,
+  GraphQLString,
+  parse,
+} from "graphql";
+import createExecutorBackend from "./backends/faunadbV10";
+import { createExecuteFn } from "./executor";
+
+const client = new Client({
+  endpoint: new URL("http://localhost:8443"),
+  secret: "secret",
+
+  // NOTE: this stops jest from complaining about
+  //       not exiting "one second after the test run has completed".
+  http2_session_idle_ms: 100,
+});
+
+function makeSchema(fields: Record<string, GraphQLFieldConfig<any, any, any>>) {
+  return new GraphQLSchema({
+    query: new GraphQLObjectType({
+      name: "Query",
+      fields,
+    }),
+  });
+}
+
+describe("validation", () => {
+  let resolved = 0;
+  const schema = makeSchema({
+    hello: {
+      type: GraphQLString,
+      args: { name: { type: GraphQLString } },
+      resolve: (_src, args) => {
+        resolved++;
+        return `hello ${args.name}`;
+      },
+    },
+  });
+
+  test("rejects invalid documents", async () => {
+    resolved = 0;
+    const execute = createExecuteFn(createExecutorBackend(client), {
+      validate: true,
+    });
+
+    const document = parse('{ hello(name: "a") hello(name: "b") }');
+    for (let i = 0; i < 2; i++) {
+      expect(
+        JSON.parse(JSON.stringify(await execute({ schema, document }))),
+      ).toStrictEqual({
+        errors: [
+          {
+            message:
+              'Fields "hello" conflict because they have differing arguments. Use different aliases on the fields to fetch both if this was intentional.',
+            locations: [
+              { line: 1, column: 3 },
+              { line: 1, column: 20 },
+            ],
+            extensions: { code: "GRAPHQL_VALIDATION_FAILED" },
+          },
+        ],
+      });
+    }
+    expect(resolved).toBe(0);
+  });
+
+  test("custom rules", async () => {
+    const execute = createExecuteFn(createExecutorBackend(client), {
+      validate: {
+        rules: [
+          (context) => ({
+            Field(node) {
+              if (node.name.value === "hello") {
+                context.reportError(
+                  new GraphQLError("hello is not allowed", { nodes: node }),
+                );
+              }
+            },
+          }),
+        ],
+      },
+    });
+
+    const result = await execute({ schema, document: parse("{ hello }") });
+    expect(result.errors?.map(({ message }) => message)).toStrictEqual([
+      "hello is not allowed",
+    ]);
+  });
+
+  test("is skipped by default", async () => {
+    const execute = createExecuteFn(createExecutorBackend(client));
+    const result = await execute({
+      schema,
+      // unused variables are not allowed by the specified rules
+      document: parse("query ($unused: String) { hello }"),
+    });
+    expect(result).toStrictEqual({ data: { hello: "hello undefined" } });
+  });
+});
@@ -0,0 +1,90 @@
+import {
+  type DocumentNode,
+  type ExecutionArgs,
+  GraphQLError,
+  type GraphQLSchema,
+  type ValidationRule,
+  specifiedRules,
+  validate,
+} from "graphql";
+import { ErrorCode } from "./errors";
+
+export interface ValidationOptions {
+  /**
+   * The rules to validate documents with, defaults to graphql-js'
+   * `specifiedRules`. The results are cached per rules array, so the same
+   * array should be passed every time.
+   */
+  rules?: ReadonlyArray<ValidationRule>;
+}
+
+const validationCache = new WeakMap<
+  GraphQLSchema,
+  WeakMap<
+    DocumentNode,
+    Map<ReadonlyArray<ValidationRule>, ReadonlyArray<GraphQLError>>
+  >
+>();
+
+/**
+ * Validate a document against a schema with graphql-js' `validate`. The
+ * errors are cached per schema, document and rules.
+ */
+export function validateDocument(
+  schema: GraphQLSchema,
+  document: DocumentNode,
+  rules: ReadonlyArray<ValidationRule> = specifiedRules,
+): ReadonlyArray<GraphQLError> {
+  let documents = validationCache.get(schema);
+  if (!documents) {
+    documents = new WeakMap();
+    validationCache.set(schema, documents);
+  }
+
+  let results = documents.get(document);
+  if (!results) {
+    results = new Map();
+    documents.set(document, results);
+  }
+
+  let errors = results.get(rules);
+  if (!errors) {
+    errors = validate(schema, document, rules).map(
+      (error) =>
+        new GraphQLError(error.message, {
+          nodes: error.nodes,
+          source: error.source,
+          positions: error.positions,
+          originalError: error.originalError,
+          extensions: {
+            ...error.extensions,
+            code: ErrorCode.GRAPHQL_VALIDATION_FAILED,
+          },
+        }),
+    );
+    results.set(rules, errors);
+  }
+
+  return errors;
+}
+
+/**
+ * Throw the validation errors of the document, if any.
+ */
+export function assertValidDocument(
+  args: ExecutionArgs,
+  options: boolean | ValidationOptions | undefined,
+): void {
+  if (!options) {
+    return;
+  }
+
+  const errors = validateDocument(
+    args.schema,
+    args.document,
+    options === true ? undefined : options.rules,
+  );
+  if (errors.length) {
+    throw errors;
+  }
+}